@@ -0,0 +1,121 @@
+/**
+ * Types for authoring directives and state against a project's own
+ * templates, directives and state shape.
+ *
+ * @packageDocumentation
+ */
+
+import type { Directive, DirectiveMeta, Expression, Mode } from 'gonia'
+import type { I18n } from './i18n.js'
+
+/**
+ * Shape of the page state, declared by the generated `astrogonia.d.ts`.
+ *
+ * @remarks
+ * Empty until `astro sync` runs. Projects can also augment it by hand:
+ *
+ * ```ts
+ * declare module 'astrogonia' {
+ *   interface RegisteredState {
+ *     user: { name: string }
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredState {}
+
+/**
+ * Template names in `templatesDir`, declared by the generated
+ * `astrogonia.d.ts`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredTemplates {}
+
+/**
+ * Directive attribute names, declared by the generated `astrogonia.d.ts`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredDirectives {}
+
+/**
+ * Name of a template, or any string before types are generated.
+ */
+export type TemplateName = keyof RegisteredTemplates extends never
+  ? string
+  : keyof RegisteredTemplates & string
+
+/**
+ * Attribute name of a directive, or any string before types are generated.
+ */
+export type DirectiveName = keyof RegisteredDirectives extends never
+  ? string
+  : keyof RegisteredDirectives & string
+
+/**
+ * Everything a directive can inject: Gonia's injectables and the request
+ * services, with the root state typed as {@link RegisteredState}.
+ *
+ * @remarks
+ * Augment it to type services registered with `registerService`.
+ */
+export interface Injectables {
+  $expr: Expression
+  $element: Element
+  $eval: <T = unknown>(expr: Expression) => T
+  $scope: Record<string, unknown>
+  $rootState: keyof RegisteredState extends never ? Record<string, unknown> : RegisteredState
+  $templates: { get(name: TemplateName): Promise<string> }
+  $mode: Mode
+  $fallback: () => never
+  $request: Request
+  $url: URL
+  $params: Record<string, string | undefined>
+  $locals: Record<string, unknown>
+  $i18n: I18n
+  $locale: Intl.Locale | undefined
+}
+
+/**
+ * Parameter types for a list of injected names.
+ */
+export type Injected<K extends readonly string[]> = {
+  -readonly [I in keyof K]: K[I] extends keyof Injectables ? Injectables[K[I]] : unknown
+}
+
+/**
+ * A directive of any signature, as registered with Gonia.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyDirective = Directive<any>
+
+/**
+ * Define a directive with its parameters typed from what it injects.
+ *
+ * @remarks
+ * Sets `$inject` from the list, so the parameters and the injected names
+ * can't drift apart. Names that aren't known injectables, such as
+ * contexts provided by ancestor directives, are typed `unknown`.
+ *
+ * @param inject - Names to inject, in parameter order
+ * @param fn - The directive
+ * @param meta - Other directive metadata, such as `$context` or `priority`
+ *
+ * @example
+ * ```ts
+ * import { defineDirective, directive } from 'astrogonia'
+ *
+ * const activeLink = defineDirective(['$element', '$url'], ($element, $url) => {
+ *   $element.classList.toggle('active', $element.getAttribute('href') === $url.pathname)
+ * })
+ *
+ * directive('g-active-link', activeLink)
+ * ```
+ */
+export function defineDirective<const K extends readonly (keyof Injectables | (string & {}))[]>(
+  inject: K,
+  fn: (...args: Injected<K>) => void | Promise<void>,
+  meta: Omit<DirectiveMeta, '$inject'> = {}
+): AnyDirective {
+  return Object.assign(fn, meta, { $inject: inject }) as AnyDirective
+}
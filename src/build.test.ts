@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { forEachLimit, formatBuildSummary } from './build.js'
+
+describe('build pass', () => {
+  it('keeps at most the limit of tasks in flight', async () => {
+    let running = 0
+    let peak = 0
+    const done: number[] = []
+
+    await forEachLimit([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      done.push(item)
+      running--
+    })
+
+    expect(peak).toBe(3)
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('stops starting tasks after a failure', async () => {
+    const started: number[] = []
+
+    await expect(forEachLimit([1, 2, 3, 4], 1, async (item) => {
+      started.push(item)
+      if (item === 2) {
+        throw new Error('boom')
+      }
+    })).rejects.toThrow('boom')
+
+    expect(started).toEqual([1, 2])
+  })
+
+  it('summarizes pages, cache hits and the slowest renders', () => {
+    const summary = formatBuildSummary([
+      { file: 'index.html', duration: 12.4, cached: false },
+      { file: 'about.html', duration: 3, cached: true },
+      { file: 'docs/index.html', duration: 1520, cached: false },
+    ], 1600)
+
+    expect(summary).toBe([
+      'Processed 3 pages in 1.60s (1 from cache)',
+      'Slowest pages:',
+      '  docs/index.html 1.52s',
+      '  index.html 12ms',
+    ].join('\n'))
+  })
+})
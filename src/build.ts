@@ -0,0 +1,88 @@
+/**
+ * Scheduling and reporting for the build pass.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Time spent on one page of the build pass.
+ */
+export interface PageTiming {
+  /**
+   * Path of the page relative to the build output directory.
+   */
+  file: string
+  /**
+   * Milliseconds spent loading, rendering and writing the page.
+   */
+  duration: number
+  /**
+   * Whether the output came from the render cache.
+   */
+  cached: boolean
+}
+
+const SLOWEST_PAGE_COUNT = 5
+
+/**
+ * Run `task` for every item with at most `limit` tasks in flight.
+ *
+ * @remarks
+ * Rejects with the first error once the tasks already started have
+ * settled; no new tasks are started after a failure.
+ */
+export async function forEachLimit<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  let failed = false
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      try {
+        await task(items[next++])
+      } catch (err) {
+        failed = true
+        throw err
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, worker)
+  const results = await Promise.allSettled(workers)
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      throw result.reason
+    }
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`
+}
+
+/**
+ * Summarize the build pass: page count, cache hits and the slowest pages.
+ */
+export function formatBuildSummary(timings: PageTiming[], elapsed: number): string {
+  const hits = timings.filter(timing => timing.cached).length
+  const pages = `${timings.length} page${timings.length === 1 ? '' : 's'}`
+  const lines = [`Processed ${pages} in ${formatDuration(elapsed)} (${hits} from cache)`]
+
+  const slowest = timings
+    .filter(timing => !timing.cached)
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, SLOWEST_PAGE_COUNT)
+
+  if (slowest.length > 0) {
+    lines.push('Slowest pages:')
+    for (const timing of slowest) {
+      lines.push(`  ${timing.file} ${formatDuration(timing.duration)}`)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,128 @@
+/**
+ * Content-hash cache of rendered pages for the build pass.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { glob } from 'tinyglobby'
+import type { PageContext } from './renderer.js'
+
+/**
+ * Bumped whenever rendering changes in a way that invalidates old entries.
+ */
+const CACHE_VERSION = '1'
+
+const ENTRY_EXTENSION = '.html'
+
+/**
+ * Hash some strings into a hex digest.
+ */
+export function hashContent(...parts: string[]): string {
+  const hash = createHash('sha256')
+  for (const part of parts) {
+    // Length prefixes keep ['ab', 'c'] and ['a', 'bc'] apart
+    hash.update(`${part.length}:${part}`)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Hash every template under a directory, so any template edit invalidates
+ * the pages rendered with the old templates.
+ */
+export async function hashTemplates(templatesPath: string): Promise<string> {
+  const files = await glob('**/*', { cwd: templatesPath, onlyFiles: true })
+  files.sort()
+
+  const parts = await Promise.all(files.map(async (file) => {
+    const content = await readFile(join(templatesPath, file), 'utf-8')
+    return `${file}\n${content}`
+  }))
+
+  return hashContent(...parts)
+}
+
+/**
+ * Rendered pages from earlier builds, keyed by everything that goes into
+ * a render.
+ */
+export interface RenderCache {
+  /**
+   * Find the rendered output for a page.
+   *
+   * @returns The cached output, or `undefined` if the page has to be rendered
+   */
+  get(html: string, page: PageContext): Promise<string | undefined>
+  /**
+   * Store the rendered output for a page.
+   */
+  set(html: string, page: PageContext, rendered: string): Promise<void>
+  /**
+   * Remove entries that were not used since the cache was created.
+   */
+  prune(): Promise<void>
+}
+
+/**
+ * Create a render cache stored in `dir`.
+ *
+ * @param fingerprint - Hash of the build-wide render inputs, such as the
+ * state and directives options and the templates
+ */
+export function createRenderCache(dir: string, fingerprint: string): RenderCache {
+  const used = new Set<string>()
+
+  // Page state that can't be serialized can't be compared either
+  const keyOf = (html: string, page: PageContext): string | undefined => {
+    try {
+      return hashContent(CACHE_VERSION, fingerprint, page.source ?? '', String(page.templatePage ?? true), JSON.stringify(page.state ?? {}), html)
+    } catch {
+      return undefined
+    }
+  }
+
+  const entryPath = (key: string) => join(dir, key + ENTRY_EXTENSION)
+
+  return {
+    async get(html, page) {
+      const key = keyOf(html, page)
+      if (!key) {
+        return undefined
+      }
+
+      used.add(key)
+      try {
+        return await readFile(entryPath(key), 'utf-8')
+      } catch {
+        return undefined
+      }
+    },
+
+    async set(html, page, rendered) {
+      const key = keyOf(html, page)
+      if (!key) {
+        return
+      }
+
+      used.add(key)
+      await mkdir(dir, { recursive: true })
+      await writeFile(entryPath(key), rendered)
+    },
+
+    async prune() {
+      let entries: string[]
+      try {
+        entries = await readdir(dir)
+      } catch {
+        return
+      }
+
+      await Promise.all(entries
+        .filter(entry => entry.endsWith(ENTRY_EXTENSION) && !used.has(entry.slice(0, -ENTRY_EXTENSION.length)))
+        .map(entry => rm(join(dir, entry), { force: true })))
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Message catalogs and locales for translated SSR.
+ *
+ * @packageDocumentation
+ */
+
+import { readdir } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+import type { DiagnosticReporter } from './diagnostics.js'
+import { createI18n, flattenMessages, type Messages } from './i18n.js'
+import type { RequestServices } from './services.js'
+import { readStateFile } from './state-sources.js'
+
+export interface I18nOptions {
+  /**
+   * Directory of message catalogs, one `<locale>.json`, `.yaml` or `.yml`
+   * file per locale (relative to project root).
+   * @defaultValue 'src/i18n'
+   */
+  catalogsDir?: string
+  /**
+   * Locale whose messages fill in for those missing from other locales.
+   * @defaultValue Astro's `i18n.defaultLocale`, or `'en'`
+   */
+  defaultLocale?: string
+}
+
+/**
+ * Flattened messages keyed by locale.
+ */
+export type Catalogs = Record<string, Messages>
+
+/**
+ * Locales as configured in Astro's `i18n.locales`.
+ */
+export type AstroLocales = (string | { path: string, codes: string[] })[]
+
+const CATALOG_EXTENSIONS = new Set(['.json', '.yaml', '.yml'])
+
+/**
+ * Read every message catalog in a directory.
+ *
+ * @remarks
+ * Catalogs that can't be parsed are reported and left out, so their
+ * locale falls back to the default locale's messages.
+ */
+export async function readCatalogs(root: string, catalogsDir: string, report: DiagnosticReporter): Promise<Catalogs> {
+  let files: string[]
+  try {
+    files = await readdir(join(root, catalogsDir))
+  } catch (err) {
+    report({
+      severity: 'warning',
+      code: 'i18n-catalogs',
+      message: `No message catalogs found in ${catalogsDir}, g-t renders message keys`,
+      file: catalogsDir,
+      cause: err
+    })
+    return {}
+  }
+
+  const catalogs: Catalogs = {}
+  for (const file of files.sort()) {
+    const extension = extname(file).toLowerCase()
+    if (!CATALOG_EXTENSIONS.has(extension)) {
+      continue
+    }
+
+    const path = join(catalogsDir, file)
+    try {
+      catalogs[basename(file, extname(file))] = flattenMessages(await readStateFile(root, path))
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'i18n-catalog',
+        message: `Could not read message catalog ${path}: ${err instanceof Error ? err.message : String(err)}`,
+        file: path,
+        cause: err
+      })
+    }
+  }
+
+  return catalogs
+}
+
+/**
+ * Find the locale of a page from its pathname, as Astro's i18n routing
+ * does: the first path segment names the locale, and pages without one
+ * are in the default locale.
+ */
+export function localeFromPathname(pathname: string, locales: AstroLocales, defaultLocale: string): string {
+  const segment = pathname.split('/').find(Boolean)
+  if (!segment) {
+    return defaultLocale
+  }
+
+  for (const locale of locales) {
+    if (typeof locale === 'string') {
+      if (locale === segment) {
+        return locale
+      }
+    } else if (locale.path === segment) {
+      return locale.codes[0] ?? defaultLocale
+    }
+  }
+
+  return defaultLocale
+}
+
+/**
+ * The `$i18n` and `$locale` services for a page in a locale.
+ */
+export function createI18nServices(
+  catalogs: Catalogs,
+  locale: string,
+  defaultLocale: string
+): Pick<RequestServices, 'i18n' | 'locale'> {
+  let intlLocale: Intl.Locale | undefined
+  try {
+    intlLocale = new Intl.Locale(locale)
+  } catch {
+    // Not a BCP 47 tag; $i18n still works with the catalog name
+  }
+
+  return {
+    i18n: createI18n(locale, { ...catalogs[defaultLocale], ...catalogs[locale] }),
+    locale: intlLocale
+  }
+}
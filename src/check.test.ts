@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { checkHtml, runCli, writeCheckManifest, type CheckContext } from './check.js'
+
+const context: CheckContext = {
+  directives: new Set(['g-text', 'g-for', 'g-if', 'g-template', 'g-on', 'g-class']),
+  templates: new Set(['base']),
+  state: new Set(['user', 'items'])
+}
+
+function check(html: string, overrides: Partial<CheckContext> = {}) {
+  const report = vi.fn()
+  checkHtml(html, { ...context, ...overrides }, report, 'page.html')
+  return report.mock.calls.map(([diagnostic]) => diagnostic)
+}
+
+describe('checkHtml', () => {
+  it('accepts state, scope and loop variables', () => {
+    expect(check([
+      '<p g-text="user.name"></p>',
+      '<ul g-scope="{ open: true }"><li g-for="(item, index) in items" g-if="open" g-text="item.name + index"></li></ul>',
+      '<p g-text="items.filter(item => item.done).length + Math.max(1, 2)"></p>',
+      '<p g-text="$data.site.title"></p>'
+    ].join('\n'))).toEqual([])
+  })
+
+  it('reports unknown state keys with their line', () => {
+    expect(check('<main>\n  <p g-text="usr.name"></p>\n</main>')).toEqual([expect.objectContaining({
+      severity: 'warning',
+      code: 'unknown-state',
+      file: 'page.html',
+      line: 2,
+      excerpt: '<p g-text="usr.name"></p>',
+      attribute: 'g-text="usr.name"'
+    })])
+  })
+
+  it('checks custom directives with the project prefix', () => {
+    const diagnostics = check('<div x-tabs="user"></div><div x-tab="user"></div>', {
+      directives: new Set([...context.directives, 'x-tabs']),
+      prefix: 'x-'
+    })
+
+    expect(diagnostics).toEqual([expect.objectContaining({ code: 'unknown-directive', directive: 'x-tab' })])
+  })
+
+  it('leaves state keys unchecked without known state', () => {
+    expect(check('<p g-text="anything"></p>', { state: undefined })).toEqual([])
+  })
+
+  it('takes keys from the page state script', () => {
+    expect(check('<html><body><p g-text="title"></p><script id="gonia-state" type="application/json">{"title":"Docs"}</script></body></html>')).toEqual([])
+  })
+
+  it('reports expressions that do not parse', () => {
+    const [diagnostic] = check('<p g-text="user.name +"></p><li g-for="items"></li>')
+
+    expect(diagnostic).toMatchObject({ severity: 'error', code: 'expression-syntax', directive: 'g-text' })
+    expect(check('<li g-for="items"></li>')).toEqual([expect.objectContaining({
+      code: 'expression-syntax',
+      message: 'g-for expects "item in items" or "(item, index) in items", got "items"'
+    })])
+  })
+
+  it('reports unknown templates and directives', () => {
+    expect(check('<div g-template="docs"><p g-chart="user"></p><p g-bind:title="user.name" g-client="visible"></p></div>')).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'unknown-template', message: 'No template named "docs"' }),
+      expect.objectContaining({ severity: 'warning', code: 'unknown-directive', directive: 'g-chart' })
+    ])
+  })
+
+  it('checks partial names and takes their state as scope', () => {
+    const diagnostics = check('<div g-include="base with { title: user.name }"><h2 g-text="title"></h2></div><div g-include="cards/post with { title: usr }"></div>', {
+      directives: new Set([...context.directives, 'g-include'])
+    })
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'unknown-template', message: 'No template named "cards/post"', directive: 'g-include' }),
+      expect.objectContaining({ code: 'unknown-state', message: '"usr" is not in the state, the scope or a g-for loop' })
+    ])
+  })
+
+  it('checks g-for templates once in rendered pages', () => {
+    const html = '<ul><template g-for="item in items"><li data-g-for-template=""><span g-text="item.n + missing"></span></li></template>'
+      + '<li data-g-for-processed=""><span g-text="item.n + missing">1</span></li><li data-g-for-processed=""><span g-text="item.n + missing">2</span></li></ul>'
+
+    expect(check(html)).toEqual([expect.objectContaining({ code: 'unknown-state', message: '"missing" is not in the state, the scope or a g-for loop' })])
+  })
+})
+
+describe('astrogonia check', () => {
+  it('checks built pages and templates and fails on errors', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-check-'))
+    try {
+      await mkdir(join(root, 'dist/docs'), { recursive: true })
+      await mkdir(join(root, 'src/templates'), { recursive: true })
+      await writeFile(join(root, 'dist/index.html'), '<!DOCTYPE html><html><body g-template="base"></body></html>')
+      await writeFile(join(root, 'dist/docs/index.html'), '<!DOCTYPE html><html><body g-template="docs"></body></html>')
+      await writeFile(join(root, 'src/templates/base.html'), '<main g-text="title"></main>')
+      await writeCheckManifest(join(root, '.astro/integrations/astrogonia/check.json'), {
+        outDir: 'dist',
+        templatesDir: 'src/templates',
+        directives: ['g-template', 'g-text'],
+        state: ['title']
+      })
+      const write = vi.fn()
+
+      expect(await runCli(['check'], root, write)).toBe(1)
+      expect(write).toHaveBeenCalledWith(expect.stringMatching(/^error dist\/docs\/index\.html:1: No template named "docs"/), true)
+      expect(write).toHaveBeenLastCalledWith('Checked 3 files: 1 errors, 0 warnings', false)
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('asks for a sync when the manifest is missing', async () => {
+    const write = vi.fn()
+
+    expect(await runCli(['check'], tmpdir(), write)).toBe(1)
+    expect(write).toHaveBeenCalledWith(expect.stringContaining('run astro sync or astro build first'), true)
+  })
+})
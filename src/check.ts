@@ -0,0 +1,402 @@
+/**
+ * Static analysis of the Gonia attributes in built pages and templates.
+ *
+ * @packageDocumentation
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+import { parse, parseFragment, type DefaultTreeAdapterMap } from 'parse5'
+import { findRoots } from 'gonia'
+import { glob } from 'tinyglobby'
+import { formatDiagnostic, locate, type DiagnosticReporter } from './diagnostics.js'
+import { isFullDocument } from './renderer.js'
+import { STATE_SCRIPT_ID } from './state.js'
+import { ISLAND_ATTR } from './islands.js'
+import { findTemplateNames } from './typegen.js'
+import { BUILTIN_PREFIX, isDirectiveName } from './discovery.js'
+import { INCLUDE_ATTR, parseInclude } from './includes.js'
+
+type ParentNode = DefaultTreeAdapterMap['parentNode']
+type ParsedElement = DefaultTreeAdapterMap['element']
+
+/**
+ * Name of the file `astro sync` writes next to the generated types, for
+ * `astrogonia check` to read.
+ */
+export const CHECK_MANIFEST_FILENAME = 'check.json'
+
+/**
+ * Where the manifest is written, relative to the project root.
+ */
+export const CHECK_MANIFEST_PATH = '.astro/integrations/astrogonia/' + CHECK_MANIFEST_FILENAME
+
+/**
+ * What a project registers, as `astrogonia check` needs it.
+ */
+export interface CheckManifest {
+  /**
+   * Build output directory, relative to the project root.
+   */
+  outDir: string
+  /**
+   * Templates directory, relative to the project root.
+   */
+  templatesDir: string
+  /**
+   * Directive attribute names.
+   */
+  directives: string[]
+  /**
+   * Attribute prefix of custom directives.
+   */
+  prefix?: string
+  /**
+   * Top-level state keys, or `null` when a loader can add any key.
+   */
+  state: string[] | null
+}
+
+/**
+ * What the expressions of a page are checked against.
+ */
+export interface CheckContext {
+  directives: Set<string>
+  templates: Set<string>
+  /**
+   * Known top-level state keys. Without them, state keys aren't checked.
+   */
+  state?: Set<string>
+  /**
+   * Attribute prefix of custom directives.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+}
+
+/**
+ * Attributes handled by Gonia itself rather than a directive.
+ */
+const RUNTIME_ATTRS = new Set(['g-scope', 'g-bind', ISLAND_ATTR])
+
+/**
+ * Builtin directives whose values are expressions, as opposed to names
+ * (`g-template`, `g-slot`, `g-t`) or the values of custom directives,
+ * which take whatever their author chose.
+ */
+const EXPRESSION_ATTRS = new Set(['g-text', 'g-html', 'g-show', 'g-if', 'g-class', 'g-model', 'g-bind', 'g-scope'])
+
+/**
+ * Marks the items rendered from a `g-for` template.
+ */
+const FOR_PROCESSED_ATTR = 'data-g-for-processed'
+
+const FOR_PATTERN = /^\(?([A-Za-z_$][\w$]*)(?:\s*,\s*([A-Za-z_$][\w$]*))?\)?\s+in\s+(.+)$/s
+
+const ARROW_PARAMS = /(?:\(([^()]*)\)|([A-Za-z_$][\w$]*))\s*=>/g
+
+const OBJECT_KEYS = /[{,]\s*([A-Za-z_$][\w$]*)\s*:/g
+
+/**
+ * Identifiers that `findRoots` reports but that don't read state: arrow
+ * function parameters and object literal keys.
+ */
+function boundNames(expr: string): Set<string> {
+  const names = new Set<string>()
+  for (const match of expr.matchAll(ARROW_PARAMS)) {
+    for (const name of (match[1] ?? match[2]).matchAll(/[A-Za-z_$][\w$]*/g)) {
+      names.add(name[0])
+    }
+  }
+  for (const match of expr.matchAll(OBJECT_KEYS)) {
+    names.add(match[1])
+  }
+  return names
+}
+
+/**
+ * Top-level keys of a `g-scope` object literal.
+ */
+function scopeKeys(expr: string): string[] {
+  try {
+    const value: unknown = JSON.parse(expr)
+    return typeof value === 'object' && value !== null ? Object.keys(value) : []
+  } catch {
+    return [...expr.matchAll(/[{,]\s*['"]?([A-Za-z_$][\w$]*)['"]?\s*:/g)].map(match => match[1])
+  }
+}
+
+/**
+ * Compile an expression as Gonia does, without running it.
+ *
+ * @returns The root identifiers of the expression
+ * @throws SyntaxError if the expression doesn't parse
+ */
+function compileExpression(expr: string): string[] {
+  const roots = findRoots(expr)
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  new Function(...roots, `return (${expr})`)
+  return roots
+}
+
+function isElement(node: DefaultTreeAdapterMap['childNode']): node is ParsedElement {
+  return 'tagName' in node
+}
+
+function childrenOf(node: ParentNode): DefaultTreeAdapterMap['childNode'][] {
+  // Template content lives in a fragment of its own
+  return 'content' in node && node.tagName === 'template'
+    ? [...node.childNodes, ...node.content.childNodes]
+    : node.childNodes
+}
+
+/**
+ * Check the Gonia attributes in a page or template.
+ *
+ * @remarks
+ * Reports attributes that match no directive, `g-template` and `g-include`
+ * names with no template, expressions that don't parse and expressions
+ * that read state keys nothing provides. State set by `g-scope`,
+ * `g-include`, `g-for` and the page's state script counts as provided.
+ */
+export function checkHtml(html: string, context: CheckContext, report: DiagnosticReporter, file?: string): void {
+  const root = isFullDocument(html)
+    ? parse(html, { sourceCodeLocationInfo: true })
+    : parseFragment(html, { sourceCodeLocationInfo: true })
+
+  const pageState = new Set(context.state)
+  for (const script of Array.from(html.matchAll(new RegExp(`<script id="${STATE_SCRIPT_ID}"[^>]*>([^<]*)</script>`, 'g')))) {
+    for (const key of scopeKeys(script[1])) {
+      pageState.add(key)
+    }
+  }
+
+  const at = (el: ParsedElement, name: string) => {
+    const offset = el.sourceCodeLocation?.attrs?.[name]?.startOffset ?? el.sourceCodeLocation?.startOffset ?? 0
+    return { file, ...locate(html, offset) }
+  }
+
+  const checkExpression = (el: ParsedElement, name: string, expr: string, locals: Set<string>) => {
+    let roots: string[]
+    try {
+      roots = compileExpression(expr)
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'expression-syntax',
+        message: `Expression "${expr}" does not parse: ${err instanceof Error ? err.message : String(err)}`,
+        directive: name,
+        attribute: `${name}="${expr}"`,
+        ...at(el, name)
+      })
+      return
+    }
+
+    if (!context.state) {
+      return
+    }
+
+    const bound = boundNames(expr)
+    for (const identifier of roots) {
+      if (identifier.startsWith('$') || identifier in globalThis || bound.has(identifier)
+        || locals.has(identifier) || pageState.has(identifier)) {
+        continue
+      }
+
+      report({
+        severity: 'warning',
+        code: 'unknown-state',
+        message: `"${identifier}" is not in the state, the scope or a g-for loop`,
+        directive: name,
+        attribute: `${name}="${expr}"`,
+        ...at(el, name)
+      })
+    }
+  }
+
+  const walk = (node: ParentNode, inherited: Set<string>) => {
+    for (const child of childrenOf(node)) {
+      // Rendered g-for items repeat the <template g-for> they came from
+      if (!isElement(child) || child.attrs.some(attr => attr.name === FOR_PROCESSED_ATTR)) {
+        continue
+      }
+
+      const attrs = child.attrs.filter(attr => isDirectiveName(attr.name, context.prefix ?? BUILTIN_PREFIX))
+
+      // g-scope, g-include and g-for provide names to the element's own
+      // attributes
+      const scoped = new Set(inherited)
+      for (const attr of attrs.filter(attr => attr.name === 'g-scope')) {
+        scopeKeys(attr.value).forEach(key => scoped.add(key))
+      }
+      for (const attr of attrs.filter(attr => attr.name === INCLUDE_ATTR && attr.value.trim())) {
+        scopeKeys(parseInclude(attr.value).state ?? '').forEach(key => scoped.add(key))
+      }
+      const locals = new Set(scoped)
+      for (const attr of attrs.filter(attr => attr.name === 'g-for')) {
+        const loop = FOR_PATTERN.exec(attr.value.trim())
+        loop?.slice(1, 3).forEach(name => name && locals.add(name))
+      }
+
+      for (const attr of attrs) {
+        const name = attr.name.split(':')[0]
+
+        if (!RUNTIME_ATTRS.has(name) && !context.directives.has(name)) {
+          report({
+            severity: 'warning',
+            code: 'unknown-directive',
+            message: `No directive is registered as "${name}"`,
+            directive: name,
+            ...at(child, attr.name)
+          })
+          continue
+        }
+
+        if (name === INCLUDE_ATTR) {
+          const include = attr.value.trim() ? parseInclude(attr.value) : { name: '' }
+          if (!context.templates.has(include.name)) {
+            report({
+              severity: 'error',
+              code: 'unknown-template',
+              message: `No template named "${include.name}"`,
+              directive: name,
+              attribute: `${attr.name}="${attr.value}"`,
+              ...at(child, attr.name)
+            })
+          }
+          if (include.state !== undefined) {
+            checkExpression(child, attr.name, include.state, inherited)
+          }
+        } else if (name === 'g-template' && !context.templates.has(attr.value)) {
+          report({
+            severity: 'error',
+            code: 'unknown-template',
+            message: `No template named "${attr.value}"`,
+            directive: name,
+            attribute: `${attr.name}="${attr.value}"`,
+            ...at(child, attr.name)
+          })
+        } else if (name === 'g-for') {
+          const loop = FOR_PATTERN.exec(attr.value.trim())
+          if (loop) {
+            checkExpression(child, attr.name, loop[3].trim(), scoped)
+          } else {
+            report({
+              severity: 'error',
+              code: 'expression-syntax',
+              message: `g-for expects "item in items" or "(item, index) in items", got "${attr.value}"`,
+              directive: name,
+              attribute: `${attr.name}="${attr.value}"`,
+              ...at(child, attr.name)
+            })
+          }
+        } else if (name === 'g-on') {
+          const handler = attr.value.slice(attr.value.indexOf(':') + 1).trim()
+          checkExpression(child, attr.name, handler, locals)
+        } else if (EXPRESSION_ATTRS.has(name)) {
+          checkExpression(child, attr.name, attr.value, name === 'g-scope' ? inherited : locals)
+        }
+      }
+
+      walk(child, locals)
+    }
+  }
+
+  walk(root, new Set())
+}
+
+/**
+ * Write the manifest `astrogonia check` reads.
+ */
+export async function writeCheckManifest(file: string, manifest: CheckManifest): Promise<void> {
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, JSON.stringify(manifest, null, 2) + '\n')
+}
+
+/**
+ * Read the manifest `astro sync` wrote for a project.
+ *
+ * @throws If the project hasn't been synced with the integration
+ */
+export async function readCheckManifest(root: string): Promise<CheckManifest> {
+  try {
+    return JSON.parse(await readFile(join(root, CHECK_MANIFEST_PATH), 'utf-8')) as CheckManifest
+  } catch (err) {
+    throw new Error(`[astrogonia] No ${CHECK_MANIFEST_PATH} found, run astro sync or astro build first`, { cause: err })
+  }
+}
+
+/**
+ * Check the built pages and the templates of a project.
+ *
+ * @param dir - Directory of pages to check instead of the build output,
+ * relative to the project root
+ * @returns The number of files checked
+ */
+export async function checkProject(root: string, report: DiagnosticReporter, dir?: string): Promise<number> {
+  const manifest = await readCheckManifest(root)
+  const templates = await findTemplateNames(root, manifest.templatesDir)
+  const context: CheckContext = {
+    directives: new Set(manifest.directives),
+    templates: new Set(templates),
+    state: manifest.state ? new Set(manifest.state) : undefined,
+    prefix: manifest.prefix
+  }
+
+  const pagesDir = join(root, dir ?? manifest.outDir)
+  const pages = (await glob('**/*.html', { cwd: pagesDir, onlyFiles: true })).sort().map(file => join(pagesDir, file))
+  const files = [...pages, ...templates.map(name => join(root, manifest.templatesDir, name + '.html'))]
+
+  for (const file of files) {
+    checkHtml(await readFile(file, 'utf-8'), context, report, relative(root, file))
+  }
+
+  return files.length
+}
+
+const USAGE = `Usage: astrogonia check [dir]
+
+Check the Gonia attributes in built pages and templates against the state,
+directives and templates the project registers.
+
+  dir  Directory of pages to check, relative to the project root
+       (default: Astro's outDir)`
+
+/**
+ * Run the `astrogonia` command.
+ *
+ * @param args - Command line arguments after `astrogonia`
+ * @param root - Project root
+ * @param write - Receives the output, with whether it is an error
+ * @returns The exit code, `1` if any errors were found
+ */
+export async function runCli(
+  args: string[],
+  root: string,
+  write: (text: string, error: boolean) => void
+): Promise<number> {
+  const [command, dir, ...rest] = args
+  if (command === '--help' || command === '-h') {
+    write(USAGE, false)
+    return 0
+  }
+  if (command !== 'check' || rest.length > 0) {
+    write(USAGE, true)
+    return 1
+  }
+
+  const counts = { error: 0, warning: 0, info: 0 }
+  let files: number
+  try {
+    files = await checkProject(root, (diagnostic) => {
+      counts[diagnostic.severity]++
+      write(`${diagnostic.severity} ${formatDiagnostic(diagnostic)}`, diagnostic.severity === 'error')
+    }, dir)
+  } catch (err) {
+    write(err instanceof Error ? err.message : String(err), true)
+    return 1
+  }
+
+  write(`Checked ${files} files: ${counts.error} errors, ${counts.warning} warnings`, false)
+  return counts.error > 0 ? 1 : 0
+}
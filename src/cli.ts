@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+/**
+ * The `astrogonia` command.
+ *
+ * @packageDocumentation
+ */
+
+import { runCli } from './check.js'
+
+process.exitCode = await runCli(process.argv.slice(2), process.cwd(), (text, error) => {
+  if (error) {
+    console.error(text)
+  } else {
+    console.log(text)
+  }
+})
@@ -0,0 +1,100 @@
+/**
+ * Client bootstrap that hydrates against the server-rendered state.
+ *
+ * @packageDocumentation
+ */
+
+import { directive, effect, getRootScope, type Expression } from 'gonia'
+import { hydrate } from 'gonia/client'
+import { STATE_SCRIPT_ID } from './state.js'
+import { createI18n, I18N_SCRIPT_ID, type I18n, type Messages } from './i18n.js'
+import { include } from './includes.js'
+
+/**
+ * Read the state the page was server-rendered with.
+ *
+ * @returns The parsed `<script id="gonia-state">` content, or an empty object
+ */
+export function readState(): Record<string, unknown> {
+  const script = document.getElementById(STATE_SCRIPT_ID)
+  if (!script?.textContent) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(script.textContent) as Record<string, unknown>
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Seed the root scope with the server-rendered state and hydrate the page.
+ *
+ * @example
+ * ```ts
+ * import { bootstrap } from 'astrogonia/client'
+ *
+ * bootstrap()
+ * ```
+ */
+export async function bootstrap(): Promise<void> {
+  Object.assign(getRootScope(), readState())
+  await hydrate()
+}
+
+let pageI18n: I18n | undefined
+
+/**
+ * Translations in the browser, from the messages the page was rendered
+ * with.
+ *
+ * @remarks
+ * Only the messages the server looked up are shipped with the page, so
+ * keys first used in the browser fall back to the key itself.
+ *
+ * @returns The translations, or `undefined` if the page was not rendered
+ * with any
+ */
+export function getI18n(): I18n | undefined {
+  const script = document.getElementById(I18N_SCRIPT_ID)
+  if (pageI18n || !script) {
+    return pageI18n
+  }
+
+  let data: { locale?: string, messages?: Messages } = {}
+  try {
+    data = JSON.parse(script.textContent || '{}') as typeof data
+  } catch {
+    // Translate nothing rather than break hydration
+  }
+
+  pageI18n = createI18n(data.locale ?? document.documentElement.lang, data.messages ?? {})
+  return pageI18n
+}
+
+/**
+ * Translate the element's text in the browser, re-rendering placeholders
+ * as the state they read changes.
+ *
+ * @remarks
+ * `$i18n` can't be injected in the browser, so the directive reads the
+ * page's messages with {@link getI18n} instead.
+ */
+export const t = function t($expr: Expression, $element: Element, $eval: (expr: Expression) => unknown) {
+  const i18n = getI18n()
+  if (i18n) {
+    effect(() => {
+      $element.textContent = i18n.t($expr, expr => $eval(expr as Expression))
+    })
+  }
+}
+t.$inject = ['$expr', '$element', '$eval']
+
+directive('g-t', t)
+
+// Partials are expanded on the server; the browser only gives them
+// the state they were rendered with
+directive('g-include', include, { scope: true })
+
+export { include }
@@ -0,0 +1,238 @@
+/**
+ * Virtual module that hands integration options to the middleware.
+ *
+ * @packageDocumentation
+ */
+
+import type { Plugin } from 'vite'
+import type { Loader } from './loader.js'
+import type { AnyDirective } from './authoring.js'
+import type { DiagnosticReporter } from './diagnostics.js'
+import { readStateFile, serializableStateSources, stateSourceFiles, type StateSources } from './state-sources.js'
+import { readCatalogs } from './catalogs.js'
+import { BUILTIN_PREFIX, DEFAULT_DIRECTIVES_DIR, findDirectiveModules } from './discovery.js'
+import type { StyleSheets } from './styles.js'
+import { compileStyleSheets, type StyleSheetsOptions } from './style-compiler.js'
+import { findTemplateRoutes, type PageRoute } from './pages.js'
+
+export const CONFIG_MODULE_ID = 'virtual:astrogonia/config'
+
+export const RESOLVED_CONFIG_MODULE_ID = '\0' + CONFIG_MODULE_ID
+
+/**
+ * Global key used to hand non-serializable options to the middleware.
+ *
+ * @remarks
+ * Functions such as directives and loaders cannot be serialized into the
+ * virtual module. In dev the middleware runs in the same process as the
+ * integration, so they are passed through `globalThis` instead.
+ */
+export const RUNTIME_KEY = Symbol.for('astrogonia:runtime')
+
+/**
+ * Non-serializable options handed over through {@link RUNTIME_KEY}.
+ */
+export interface RuntimeOptions {
+  directives?: Record<string, AnyDirective>
+  loader?: Loader
+  report?: DiagnosticReporter
+  stateSources?: StateSources
+}
+
+export interface ConfigModuleOptions {
+  /**
+   * Absolute path of the Astro project root.
+   */
+  root: string
+  /**
+   * Whether the module is served by the dev server rather than bundled by
+   * `astro build`.
+   */
+  dev: boolean
+  /**
+   * Initial state for SSR.
+   */
+  state?: Record<string, unknown>
+  /**
+   * Directory containing Gonia templates (relative to project root).
+   */
+  templatesDir: string
+  /**
+   * Directory of custom directives, whose `index.ts` registers them
+   * (relative to project root).
+   * @defaultValue 'src/directives'
+   */
+  directivesDir?: string
+  /**
+   * Glob patterns of custom directive sources (relative to project root),
+   * each of which is imported.
+   * @defaultValue every `.ts` file under `directivesDir`
+   */
+  directiveGlobs?: string[]
+  /**
+   * Attribute prefix of custom directives.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+  /**
+   * Build the document of page shells from their `g-template`.
+   * @defaultValue false
+   */
+  templatePages?: boolean
+  /**
+   * The project's page routes, read when the module loads since routes
+   * are resolved after setup. With `templatePages`, those written as
+   * template pages are exported.
+   * @defaultValue no routes
+   */
+  pageRoutes?: () => PageRoute[]
+  /**
+   * Write the merged SSR state into rendered documents.
+   */
+  serializeState: boolean
+  /**
+   * Render HTML responses in the middleware as they stream.
+   * @defaultValue false
+   */
+  streaming?: boolean
+  /**
+   * Named state exposed under `$data`.
+   */
+  stateSources?: StateSources
+  /**
+   * Message catalogs and the default locale, when translating.
+   */
+  i18n?: { catalogsDir: string, defaultLocale: string }
+  /**
+   * Where styles are compiled from, when vanilla-extract is enabled.
+   */
+  styles?: Omit<StyleSheetsOptions, 'templatesDir' | 'report'>
+  /**
+   * Receives problems found while generating the module.
+   */
+  report?: DiagnosticReporter
+}
+
+/**
+ * Serializable options exported by the virtual config module.
+ */
+export interface SerializedOptions {
+  state: Record<string, unknown>
+  templatesDir: string
+  prefix: string
+  templatePages: boolean
+  /**
+   * Patterns of the routes written as template pages.
+   */
+  templateRoutes: string[]
+  serializeState: boolean
+  streaming: boolean
+  /**
+   * File and collection state sources; function sources are handed over
+   * at runtime.
+   */
+  stateSources: Record<string, string | { collection: string }>
+  i18n?: { defaultLocale: string }
+}
+
+/**
+ * Generate the source of the virtual config module.
+ */
+export async function generateConfigModule(options: ConfigModuleOptions): Promise<string> {
+  const serialized: SerializedOptions = {
+    state: options.state ?? {},
+    templatesDir: options.templatesDir,
+    prefix: options.prefix ?? BUILTIN_PREFIX,
+    templatePages: options.templatePages ?? false,
+    templateRoutes: options.templatePages ? await findTemplateRoutes(options.root, options.pageRoutes?.() ?? []) : [],
+    serializeState: options.serializeState,
+    streaming: options.streaming ?? false,
+    stateSources: serializableStateSources(options.stateSources),
+    i18n: options.i18n && { defaultLocale: options.i18n.defaultLocale },
+  }
+
+  const templatesPrefix = '/' + options.templatesDir.replace(/^\/+|\/+$/g, '') + '/'
+  const lines: string[] = []
+
+  // Custom directives register themselves globally when imported, as the
+  // build pass imports them
+  const directivesDir = options.directivesDir ?? DEFAULT_DIRECTIVES_DIR
+  const directiveModules = await findDirectiveModules(options.root, directivesDir, options.directiveGlobs)
+  for (const module of directiveModules) {
+    lines.push(`import ${JSON.stringify(module)};`)
+  }
+  if (directiveModules.length === 0) {
+    options.report?.({
+      severity: 'info',
+      code: 'directives-entry',
+      message: 'No custom directive modules found, only builtin directives are available to the middleware',
+      file: directivesDir
+    })
+  }
+
+  // State files are inlined so on-demand routes don't read them at runtime.
+  // Files that can't be read are left out and reported by the middleware.
+  const stateFiles: Record<string, unknown> = {}
+  for (const path of stateSourceFiles(options.stateSources)) {
+    try {
+      stateFiles[path] = await readStateFile(options.root, path)
+    } catch {
+      // Reported when the middleware loads the source
+    }
+  }
+
+  const catalogs = options.i18n
+    ? await readCatalogs(options.root, options.i18n.catalogsDir, options.report ?? (() => {}))
+    : {}
+
+  // Compiled on every load, so style edits reach the next request
+  const styleSheets: StyleSheets = options.styles
+    ? await compileStyleSheets(options.root, {
+        ...options.styles,
+        templatesDir: options.templatesDir,
+        report: options.report ?? (() => {})
+      })
+    : { exports: {}, css: {}, directives: {} }
+
+  const usesCollections = Object.values(options.stateSources ?? {})
+    .some(source => typeof source === 'object')
+  lines.push(usesCollections
+    ? `export { getCollection } from 'astro:content';`
+    : `export const getCollection = undefined;`)
+
+  lines.push(
+    `export const options = ${JSON.stringify(serialized)};`,
+    `export const dev = ${JSON.stringify(options.dev)};`,
+    `const runtime = globalThis[Symbol.for('astrogonia:runtime')] ?? {};`,
+    `export const directives = runtime.directives ?? {};`,
+    `export const loader = runtime.loader;`,
+    `export const report = runtime.report;`,
+    `export const stateSources = runtime.stateSources;`,
+    `export const stateFiles = ${JSON.stringify(stateFiles)};`,
+    `export const catalogs = ${JSON.stringify(catalogs)};`,
+    `export const styleSheets = ${JSON.stringify(styleSheets)};`,
+    `const templateModules = import.meta.glob(${JSON.stringify(templatesPrefix + '**/*.html')}, { query: '?raw', import: 'default', eager: true });`,
+    `export const templates = Object.fromEntries(Object.entries(templateModules).map(([path, html]) => [path.slice(${templatesPrefix.length}, -'.html'.length), html]));`,
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * Vite plugin that serves the virtual config module.
+ */
+export function configModule(options: ConfigModuleOptions): Plugin {
+  return {
+    name: 'astrogonia:config',
+    resolveId(id) {
+      if (id === CONFIG_MODULE_ID) {
+        return RESOLVED_CONFIG_MODULE_ID
+      }
+    },
+    load(id) {
+      if (id === RESOLVED_CONFIG_MODULE_ID) {
+        return generateConfigModule(options)
+      }
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'astro/zod'
+import { goniaFrontmatter, goniaSchema } from './content.js'
+
+describe('content schema', () => {
+  it('normalizes directive declarations to lists', () => {
+    expect(goniaFrontmatter.parse({ directive: 'g-text', directives: ['my-chart'] })).toEqual({
+      directive: ['g-text'],
+      directives: ['my-chart']
+    })
+  })
+
+  it('accepts page state and a template', () => {
+    expect(goniaFrontmatter.parse({ state: { count: 1 }, template: 'docs' })).toEqual({
+      state: { count: 1 },
+      template: 'docs'
+    })
+  })
+
+  it('rejects non-string directives and non-object state', () => {
+    expect(goniaFrontmatter.safeParse({ directive: [42] }).success).toBe(false)
+    expect(goniaFrontmatter.safeParse({ state: 'nope' }).success).toBe(false)
+    expect(goniaFrontmatter.safeParse({ template: '' }).success).toBe(false)
+  })
+
+  it('extends a collection schema', () => {
+    const schema = goniaSchema(z.object({ title: z.string() }))
+
+    expect(schema.parse({ title: 'Intro', directive: 'g-if', draft: true })).toEqual({
+      title: 'Intro',
+      directive: ['g-if']
+    })
+    expect(schema.safeParse({ directive: 'g-if' }).success).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Frontmatter schema for Gonia pages in content collections.
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'astro/zod'
+
+const directiveList = z.union([z.string(), z.array(z.string())])
+  .transform(value => Array.isArray(value) ? value : [value])
+
+/**
+ * Zod schema for the frontmatter keys astrogonia reads from Markdown pages.
+ *
+ * @remarks
+ * - `directive` / `directives`: directives to import on the client
+ * - `state`: initial state for rendering the page
+ * - `template`: template from `templatesDir` the page content is placed in
+ */
+export const goniaFrontmatter = z.object({
+  directive: directiveList.optional(),
+  directives: directiveList.optional(),
+  state: z.record(z.unknown()).optional(),
+  template: z.string().min(1).optional(),
+})
+
+/**
+ * Validated Gonia frontmatter.
+ */
+export type GoniaFrontmatter = z.infer<typeof goniaFrontmatter>
+
+/**
+ * Extend a collection schema with the Gonia frontmatter keys.
+ *
+ * @example
+ * ```ts
+ * // src/content.config.ts
+ * import { defineCollection, z } from 'astro:content'
+ * import { glob } from 'astro/loaders'
+ * import { goniaSchema } from 'astrogonia/content'
+ *
+ * export const collections = {
+ *   docs: defineCollection({
+ *     loader: glob({ pattern: '**\/*.md', base: './src/content/docs' }),
+ *     schema: goniaSchema(z.object({ title: z.string() }))
+ *   })
+ * }
+ * ```
+ */
+export function goniaSchema<T extends z.ZodRawShape = Record<never, never>>(
+  schema: z.ZodObject<T> = z.object({}) as z.ZodObject<T>
+) {
+  return schema.merge(goniaFrontmatter)
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createDiagnostics, formatDiagnostic, locate } from './diagnostics.js'
+import { createRenderer } from './renderer.js'
+import { createMemoryRegistry } from 'gonia'
+
+describe('diagnostics', () => {
+  it('locates the line and excerpt for an offset', () => {
+    const source = '<html>\n<body g-scope="{oops">\n</body>'
+
+    expect(locate(source, source.indexOf('g-scope'))).toEqual({
+      line: 2,
+      excerpt: '<body g-scope="{oops">'
+    })
+  })
+
+  it('formats the file, directive, attribute and excerpt', () => {
+    const message = formatDiagnostic({
+      severity: 'error',
+      code: 'scope-json',
+      message: 'Invalid JSON in body g-scope, rendering without it',
+      file: 'index.html',
+      directive: 'g-scope',
+      attribute: 'g-scope="{oops"',
+      line: 2,
+      excerpt: '<body g-scope="{oops">',
+      cause: new SyntaxError('Unexpected token')
+    })
+
+    expect(message).toBe([
+      'index.html:2: Invalid JSON in body g-scope, rendering without it',
+      '  directive: g-scope',
+      '  attribute: g-scope="{oops"',
+      '  > <body g-scope="{oops">',
+      '  cause: Unexpected token',
+    ].join('\n'))
+  })
+
+  it('reports invalid state from the renderer', async () => {
+    const report = vi.fn()
+    const renderer = createRenderer({ templates: createMemoryRegistry({}), report })
+
+    await renderer.render('<!DOCTYPE html>\n<html><body g-scope="{oops"></body></html>', { source: '/about' })
+
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      severity: 'error',
+      code: 'scope-json',
+      file: '/about',
+      directive: 'g-scope',
+      attribute: 'g-scope="{oops"',
+      line: 2
+    }))
+  })
+
+  it('logs through the integration logger and collects errors', () => {
+    const diagnostics = createDiagnostics()
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+    diagnostics.setLogger(logger as never)
+    diagnostics.collect(true)
+
+    diagnostics.report({ severity: 'warning', code: 'vite-plugin', message: 'Could not load gonia/vite' })
+    diagnostics.report({ severity: 'error', code: 'render', message: 'SSR failed', file: '/' })
+
+    expect(logger.warn).toHaveBeenCalledWith('Could not load gonia/vite')
+    expect(logger.error).toHaveBeenCalledWith('/: SSR failed')
+    expect(diagnostics.errors).toHaveLength(1)
+
+    diagnostics.collect(false)
+    expect(diagnostics.errors).toHaveLength(0)
+    diagnostics.report({ severity: 'error', code: 'render', message: 'SSR failed', file: '/' })
+    expect(diagnostics.errors).toHaveLength(0)
+  })
+
+  it('sends errors to the dev server overlay', () => {
+    const diagnostics = createDiagnostics()
+    const send = vi.fn()
+    const plugin = diagnostics.vitePlugin()
+    diagnostics.setLogger({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as never)
+    ;(plugin.configureServer as (server: unknown) => void)({ ws: { send } })
+
+    diagnostics.report({ severity: 'error', code: 'template', message: 'Could not apply template "base"', file: '/', line: 3, excerpt: '<body g-template="base">' })
+
+    expect(send).toHaveBeenCalledWith({
+      type: 'error',
+      err: expect.objectContaining({
+        message: '[astrogonia] Could not apply template "base"',
+        frame: '<body g-template="base">',
+        loc: { file: '/', line: 3, column: 0 }
+      })
+    })
+  })
+})
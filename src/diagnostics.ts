@@ -0,0 +1,229 @@
+/**
+ * Structured reporting of SSR problems.
+ *
+ * @packageDocumentation
+ */
+
+import type { AstroIntegrationLogger } from 'astro'
+import type { Plugin, ViteDevServer } from 'vite'
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * A problem found while setting up or running SSR.
+ */
+export interface Diagnostic {
+  /**
+   * `error` for problems that change the rendered output, `warning` for
+   * degraded setup, `info` for optional features that are not in use.
+   */
+  severity: DiagnosticSeverity
+  /**
+   * Stable identifier for the kind of problem, e.g. `scope-json`.
+   */
+  code: string
+  /**
+   * Human-readable description.
+   */
+  message: string
+  /**
+   * File or route the problem was found in.
+   */
+  file?: string
+  /**
+   * Directive involved, e.g. `g-scope`.
+   */
+  directive?: string
+  /**
+   * Source of the attribute involved, e.g. `g-template="base"`.
+   */
+  attribute?: string
+  /**
+   * 1-based line of the problem in `file`.
+   */
+  line?: number
+  /**
+   * Source line the problem was found on.
+   */
+  excerpt?: string
+  /**
+   * Underlying error, if any.
+   */
+  cause?: unknown
+}
+
+/**
+ * Receives diagnostics as they are found.
+ */
+export type DiagnosticReporter = (diagnostic: Diagnostic) => void
+
+const MAX_EXCERPT_LENGTH = 160
+
+/**
+ * Find the line and source excerpt for an offset in some source text.
+ */
+export function locate(source: string, index: number): Pick<Diagnostic, 'line' | 'excerpt'> {
+  const lineStart = source.lastIndexOf('\n', index - 1) + 1
+  const lineEnd = source.indexOf('\n', index)
+  const text = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+
+  // Long lines (minified output) are cut down to the area around the offset
+  const column = index - lineStart
+  const start = Math.max(0, column - MAX_EXCERPT_LENGTH / 2)
+  const excerpt = text.length > MAX_EXCERPT_LENGTH
+    ? (start > 0 ? '…' : '') + text.slice(start, start + MAX_EXCERPT_LENGTH) + '…'
+    : text
+
+  return {
+    line: source.slice(0, index).split('\n').length,
+    excerpt: excerpt.trim()
+  }
+}
+
+function describeCause(cause: unknown): string | undefined {
+  if (cause instanceof Error) {
+    return cause.message
+  }
+  return cause === undefined ? undefined : String(cause)
+}
+
+/**
+ * Format a diagnostic as a multi-line log message.
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = diagnostic.file
+    ? diagnostic.line ? `${diagnostic.file}:${diagnostic.line}` : diagnostic.file
+    : undefined
+
+  const lines = [
+    location ? `${location}: ${diagnostic.message}` : diagnostic.message
+  ]
+
+  if (diagnostic.directive) {
+    lines.push(`  directive: ${diagnostic.directive}`)
+  }
+  if (diagnostic.attribute) {
+    lines.push(`  attribute: ${diagnostic.attribute}`)
+  }
+  if (diagnostic.excerpt) {
+    lines.push(`  > ${diagnostic.excerpt}`)
+  }
+
+  const cause = describeCause(diagnostic.cause)
+  if (cause && cause !== diagnostic.message) {
+    lines.push(`  cause: ${cause}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Report diagnostics through `console`, for code running without access
+ * to the Astro integration logger.
+ */
+export const consoleReporter: DiagnosticReporter = (diagnostic) => {
+  const message = `[astrogonia] ${formatDiagnostic(diagnostic)}`
+  if (diagnostic.severity === 'error') {
+    console.error(message)
+  } else if (diagnostic.severity === 'warning') {
+    console.warn(message)
+  }
+}
+
+/**
+ * Collects diagnostics for an integration instance.
+ */
+export interface Diagnostics {
+  /**
+   * Log a diagnostic, show errors in the dev overlay and, while
+   * collecting, keep errors for {@link Diagnostics.errors}.
+   */
+  report: DiagnosticReporter
+  /**
+   * Errors reported since {@link Diagnostics.collect} was last called.
+   */
+  errors: Diagnostic[]
+  /**
+   * Forget collected errors and set whether to keep the errors reported
+   * from now on.
+   *
+   * @remarks
+   * Errors are only needed by a build, so a long dev session doesn't
+   * hold on to every error it reports. Nothing is kept until this is
+   * called.
+   */
+  collect(enabled: boolean): void
+  /**
+   * Set the logger diagnostics are written to; `console` is used until
+   * one is set.
+   */
+  setLogger(logger: AstroIntegrationLogger | undefined): void
+  /**
+   * Vite plugin that forwards errors to the dev server error overlay.
+   */
+  vitePlugin(): Plugin
+}
+
+/**
+ * Create a diagnostics collector.
+ */
+export function createDiagnostics(): Diagnostics {
+  let logger: AstroIntegrationLogger | undefined
+  let server: ViteDevServer | undefined
+  const errors: Diagnostic[] = []
+  let collecting = false
+
+  const report: DiagnosticReporter = (diagnostic) => {
+    if (!logger) {
+      consoleReporter(diagnostic)
+    } else if (diagnostic.severity === 'error') {
+      logger.error(formatDiagnostic(diagnostic))
+    } else if (diagnostic.severity === 'warning') {
+      logger.warn(formatDiagnostic(diagnostic))
+    } else {
+      logger.debug(formatDiagnostic(diagnostic))
+    }
+
+    if (diagnostic.severity !== 'error') {
+      return
+    }
+
+    if (collecting) {
+      errors.push(diagnostic)
+    }
+
+    server?.ws.send({
+      type: 'error',
+      err: {
+        message: `[astrogonia] ${diagnostic.message}`,
+        stack: diagnostic.cause instanceof Error ? diagnostic.cause.stack ?? '' : '',
+        id: diagnostic.file,
+        frame: diagnostic.excerpt,
+        plugin: 'astrogonia',
+        loc: diagnostic.line
+          ? { file: diagnostic.file, line: diagnostic.line, column: 0 }
+          : undefined
+      }
+    })
+  }
+
+  return {
+    report,
+    errors,
+    collect(enabled) {
+      errors.length = 0
+      collecting = enabled
+    },
+    setLogger(next) {
+      logger = next
+    },
+    vitePlugin() {
+      return {
+        name: 'astrogonia:diagnostics',
+        configureServer(devServer) {
+          server = devServer
+        }
+      }
+    }
+  }
+}
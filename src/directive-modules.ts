@@ -0,0 +1,61 @@
+/**
+ * Imports of custom directive modules for the build pass, which runs
+ * outside Vite.
+ *
+ * @packageDocumentation
+ */
+
+import { relative } from 'node:path'
+import type { DiagnosticReporter } from './diagnostics.js'
+
+type RunnerImport = (moduleId: string, inlineConfig?: Record<string, unknown>) => Promise<unknown>
+
+/**
+ * Import the modules that register custom directives, so the build pass
+ * renders the directives the middleware renders.
+ *
+ * @remarks
+ * Modules are run through Vite's module runner, which transforms
+ * TypeScript and resolves imports as the dev server does, while packages
+ * such as `gonia` are shared with the integration. Modules that fail to
+ * import are reported and skipped.
+ *
+ * @param root - Absolute path of the project root
+ * @param modules - Absolute paths of the modules, see `findDirectiveModules`
+ */
+export async function importDirectiveModules(root: string, modules: string[], report: DiagnosticReporter): Promise<void> {
+  if (modules.length === 0) {
+    return
+  }
+
+  let runnerImport: RunnerImport | undefined
+  try {
+    ({ runnerImport } = await import('vite') as { runnerImport?: RunnerImport })
+  } catch {
+    // Reported below
+  }
+
+  if (!runnerImport) {
+    report({
+      severity: 'warning',
+      code: 'directive-modules',
+      message: 'Custom directives need Vite 6.1 or later to render in the build pass, pages using them are left unrendered'
+    })
+    return
+  }
+
+  for (const module of modules) {
+    const file = relative(root, module).replace(/\\/g, '/')
+    try {
+      await runnerImport(module, { root, logLevel: 'error' })
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'directive-modules',
+        message: `Could not import ${file}: ${err instanceof Error ? err.message : String(err)}`,
+        file,
+        cause: err
+      })
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { discoverDirectives, findDirectiveModules, findRegisteredNames } from './discovery.js'
+
+describe('directive discovery', () => {
+  it('finds registered directive names', () => {
+    const source = [
+      `import { directive } from 'gonia'`,
+      `directive('g-chart', chart, { scope: true })`,
+      `directive( "tooltip",`,
+      `  tooltip)`,
+      `// getDirective('g-text') is not a registration`,
+    ].join('\n')
+
+    expect(findRegisteredNames(source)).toEqual(['g-chart', 'tooltip'])
+  })
+
+  it('lists the directives entry and the modules the globs match for SSR', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+
+    try {
+      await mkdir(join(root, 'src/directives'), { recursive: true })
+      await mkdir(join(root, 'packages/ui/directives'), { recursive: true })
+      for (const file of ['src/directives/index.ts', 'src/directives/chart.ts', 'packages/ui/directives/tabs.ts', 'packages/ui/directives/tabs.css.ts', 'packages/ui/directives/tabs.test.ts']) {
+        await writeFile(join(root, file), '')
+      }
+
+      expect(await findDirectiveModules(root, 'src/directives')).toEqual([
+        join(root, 'src/directives/index.ts'),
+        join(root, 'src/directives/chart.ts')
+      ])
+      expect(await findDirectiveModules(root, 'src/directives', ['packages/ui/directives/**/*.ts'])).toEqual([
+        join(root, 'src/directives/index.ts'),
+        join(root, 'packages/ui/directives/tabs.ts')
+      ])
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('maps names to root-relative modules and reports duplicates', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+    const report = vi.fn()
+
+    try {
+      await mkdir(join(root, 'src/directives'), { recursive: true })
+      await writeFile(join(root, 'src/directives/a.ts'), `directive('g-chart', chart)`)
+      await writeFile(join(root, 'src/directives/b.ts'), `directive('g-chart', other)\ndirective('tooltip', tooltip)`)
+      await writeFile(join(root, 'src/directives/a.test.ts'), `directive('g-fake', fake)`)
+
+      const sources = await discoverDirectives(root, ['src/directives/**/*.ts'], report)
+
+      expect(sources).toEqual(new Map([
+        ['g-chart', '/src/directives/a.ts'],
+        ['chart', '/src/directives/a.ts'],
+        ['tooltip', '/src/directives/b.ts'],
+      ]))
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'duplicate-directive',
+        directive: 'g-chart'
+      }))
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('finds nothing without a directives directory', async () => {
+    expect(await discoverDirectives('/nonexistent', ['src/directives/**/*.ts'], vi.fn())).toEqual(new Map())
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Where custom directives live, how their attributes are prefixed, and
+ * their discovery from source files.
+ *
+ * @packageDocumentation
+ */
+
+import { access, readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { glob } from 'tinyglobby'
+import type { DiagnosticReporter } from './diagnostics.js'
+
+/**
+ * Prefix of Gonia's builtin directives, such as `g-text`.
+ */
+export const BUILTIN_PREFIX = 'g-'
+
+/**
+ * Where custom directives live, relative to the project root.
+ */
+export const DEFAULT_DIRECTIVES_DIR = 'src/directives'
+
+const PREFIX_PATTERN = /^[a-z][a-z0-9]*-$/
+
+/**
+ * Check a directive prefix, which has to be a lowercase attribute name
+ * prefix ending with `-`.
+ *
+ * @throws If the prefix can't start an attribute name
+ */
+export function validatePrefix(prefix: string): string {
+  if (!PREFIX_PATTERN.test(prefix)) {
+    throw new Error(`[astrogonia] prefix must be lowercase letters and digits ending with "-", such as "x-", got "${prefix}"`)
+  }
+  return prefix
+}
+
+/**
+ * Globs of the directive sources in a directory.
+ */
+export function directiveGlobs(directivesDir: string): string[] {
+  return [`${directivesDir.replace(/\/+$/, '')}/**/*.ts`]
+}
+
+/**
+ * Absolute paths of the modules that register custom directives for SSR:
+ * the `index.ts` of the directives directory, then every directive
+ * source the globs match.
+ *
+ * @remarks
+ * Tests, declarations and `.css.ts` styles are left out, as they register
+ * no directives.
+ */
+export async function findDirectiveModules(root: string, directivesDir: string, patterns = directiveGlobs(directivesDir)): Promise<string[]> {
+  const modules: string[] = []
+  const entry = join(root, directivesDir, 'index.ts')
+  try {
+    await access(entry)
+    modules.push(entry)
+  } catch {
+    // Directives may all come from the globs
+  }
+
+  const files = await glob(patterns, { cwd: root, ignore: ['**/*.test.ts', '**/*.d.ts', '**/*.css.ts'], onlyFiles: true, absolute: true })
+  for (const file of files.map(file => file.replace(/\\/g, '/')).sort()) {
+    if (!modules.includes(file)) {
+      modules.push(file)
+    }
+  }
+
+  return modules
+}
+
+/**
+ * Whether an attribute name is a directive's: one of Gonia's builtins or
+ * a custom directive with the project's prefix.
+ */
+export function isDirectiveName(name: string, prefix = BUILTIN_PREFIX): boolean {
+  return name.startsWith(BUILTIN_PREFIX) || name.startsWith(prefix)
+}
+
+/**
+ * Whether some markup may use directives, as a cheap check before parsing.
+ */
+export function mayContainDirectives(html: string, prefix = BUILTIN_PREFIX): boolean {
+  return html.includes(BUILTIN_PREFIX) || html.includes(prefix)
+}
+
+/**
+ * Matches `directive('name', ...)` registrations.
+ */
+const REGISTRATION_PATTERN = /\bdirective\s*\(\s*(['"`])([\w:-]+)\1/g
+
+/**
+ * Find the names a module registers with `directive()`.
+ */
+export function findRegisteredNames(source: string): string[] {
+  return [...source.matchAll(REGISTRATION_PATTERN)].map(match => match[2])
+}
+
+/**
+ * Scan directive sources and map each registered directive name to the
+ * module that registers it.
+ *
+ * @remarks
+ * Module paths are root-relative (`/src/directives/chart.ts`), so Vite
+ * resolves them from any page. Names registered with the prefix are also
+ * mapped without it, matching how builtins can be declared in
+ * frontmatter.
+ */
+export async function discoverDirectives(
+  root: string,
+  patterns: string[],
+  report: DiagnosticReporter,
+  prefix = BUILTIN_PREFIX
+): Promise<Map<string, string>> {
+  const files = await glob(patterns, { cwd: root, ignore: ['**/*.test.ts', '**/*.d.ts'], onlyFiles: true })
+  files.sort()
+
+  const sources = new Map<string, string>()
+
+  for (const file of files) {
+    const modulePath = '/' + file.replace(/\\/g, '/')
+    const names = findRegisteredNames(await readFile(join(root, file), 'utf-8'))
+
+    for (const name of names) {
+      const existing = sources.get(name)
+      if (existing && existing !== modulePath) {
+        report({
+          severity: 'warning',
+          code: 'duplicate-directive',
+          message: `Directive "${name}" is registered by both ${existing} and ${modulePath}, using ${existing}`,
+          file: modulePath,
+          directive: name
+        })
+        continue
+      }
+
+      sources.set(name, modulePath)
+      const alias = name.slice(prefix.length)
+      if (name.startsWith(prefix) && !sources.has(alias)) {
+        sources.set(alias, modulePath)
+      }
+    }
+  }
+
+  return sources
+}
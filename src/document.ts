@@ -0,0 +1,163 @@
+/**
+ * Source-preserving access to the `<html>`, `<head>` and `<body>` elements
+ * of a document.
+ *
+ * @packageDocumentation
+ */
+
+import { parse, type DefaultTreeAdapterMap } from 'parse5'
+
+type ParsedElement = DefaultTreeAdapterMap['element']
+
+export type DocumentTag = 'html' | 'head' | 'body'
+
+/**
+ * An attribute as written in the source.
+ */
+export interface SourceAttribute {
+  name: string
+  /**
+   * Value with character references decoded.
+   */
+  value: string
+  /**
+   * The attribute as written, e.g. `g-scope='{"a":1}'`.
+   */
+  source: string
+  /**
+   * Offset of the attribute in the document.
+   */
+  offset: number
+}
+
+/**
+ * Source range, `end` exclusive.
+ */
+export interface SourceRange {
+  start: number
+  end: number
+}
+
+/**
+ * A document element written with an explicit start tag, or a body the
+ * parser implied, see {@link readImpliedBody}.
+ */
+export interface DocumentElement {
+  tag: DocumentTag
+  attrs: SourceAttribute[]
+  startTag: SourceRange
+  /**
+   * Range of the element's content, between its start and end tags.
+   */
+  content: SourceRange
+}
+
+export type DocumentElements = Partial<Record<DocumentTag, DocumentElement>>
+
+function findChild(parent: { childNodes: DefaultTreeAdapterMap['childNode'][] }, tag: string): ParsedElement | undefined {
+  return parent.childNodes.find((node): node is ParsedElement => 'tagName' in node && node.tagName === tag)
+}
+
+function toDocumentElement(html: string, tag: DocumentTag, el: ParsedElement | undefined): DocumentElement | undefined {
+  const location = el?.sourceCodeLocation
+  // Elements the parser implied have no start tag to work with
+  if (!el || !location?.startTag) {
+    return undefined
+  }
+
+  const attrs = el.attrs.map((attr) => {
+    const attrLocation = location.attrs?.[attr.name]
+    return {
+      name: attr.name,
+      value: attr.value,
+      source: attrLocation ? html.slice(attrLocation.startOffset, attrLocation.endOffset) : attr.name,
+      offset: attrLocation?.startOffset ?? location.startTag!.startOffset
+    }
+  })
+
+  // Without an end tag, the content ends with the last child
+  const lastChild = el.childNodes.at(-1)
+  const contentEnd = location.endTag?.startOffset
+    ?? lastChild?.sourceCodeLocation?.endOffset
+    ?? location.startTag.endOffset
+
+  return {
+    tag,
+    attrs,
+    startTag: { start: location.startTag.startOffset, end: location.startTag.endOffset },
+    content: { start: location.startTag.endOffset, end: contentEnd }
+  }
+}
+
+/**
+ * Parse a document and locate its `<html>`, `<head>` and `<body>` elements
+ * in the source.
+ */
+export function parseDocument(html: string): DocumentElements {
+  const document = parse(html, { sourceCodeLocationInfo: true })
+  const root = findChild(document, 'html')
+
+  return {
+    html: toDocumentElement(html, 'html', root),
+    head: root && toDocumentElement(html, 'head', findChild(root, 'head')),
+    body: root && toDocumentElement(html, 'body', findChild(root, 'body'))
+  }
+}
+
+/**
+ * The body of a document written without a `<body>` tag, such as Astro's
+ * Markdown pages without a layout.
+ *
+ * @remarks
+ * The body has no attributes, and its start tag is the empty range where
+ * its content begins.
+ *
+ * @returns The body, or `undefined` when the document has an explicit or
+ * an empty body
+ */
+export function readImpliedBody(html: string): DocumentElement | undefined {
+  const document = parse(html, { sourceCodeLocationInfo: true })
+  const root = findChild(document, 'html')
+  const body = root && findChild(root, 'body')
+  if (!body || body.sourceCodeLocation?.startTag) {
+    return undefined
+  }
+
+  const first = body.childNodes[0]?.sourceCodeLocation
+  const last = body.childNodes.at(-1)?.sourceCodeLocation
+  if (!first || !last) {
+    return undefined
+  }
+
+  return {
+    tag: 'body',
+    attrs: [],
+    startTag: { start: first.startOffset, end: first.startOffset },
+    content: { start: first.startOffset, end: last.endOffset }
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Serialize attributes for a start tag, with a leading space.
+ */
+export function serializeAttributes(attrs: { name: string, value: string }[]): string {
+  return attrs.map(attr => ` ${attr.name}="${escapeAttribute(attr.value)}"`).join('')
+}
+
+/**
+ * Apply replacements to source ranges.
+ *
+ * @remarks
+ * Ranges must not overlap.
+ */
+export function spliceSource(source: string, replacements: { range: SourceRange, text: string }[]): string {
+  let result = source
+  for (const { range, text } of [...replacements].sort((a, b) => b.range.start - a.range.start)) {
+    result = result.slice(0, range.start) + text + result.slice(range.end)
+  }
+  return result
+}
@@ -0,0 +1,278 @@
+/**
+ * The middleware's request handling, created from the configuration the
+ * integration hands over.
+ *
+ * @packageDocumentation
+ */
+
+import { createMemoryRegistry } from 'gonia'
+import type { APIContext, MiddlewareHandler } from 'astro'
+import { createRenderer } from './renderer.js'
+import { loadPageState, type Loader } from './loader.js'
+import { consoleReporter, type DiagnosticReporter } from './diagnostics.js'
+import { renderStream } from './stream.js'
+import { DATA_KEY, loadStateSources, toCollectionEntry, type StateSources } from './state-sources.js'
+import type { RequestServices } from './services.js'
+import { createI18nServices, type Catalogs } from './catalogs.js'
+import { mayContainDirectives } from './discovery.js'
+import { createStyleElements, ENTRY_SHEET, insertStyles, STYLES_KEY, usedStyleSheets, type StyleSheets } from './styles.js'
+import type { AnyDirective } from './authoring.js'
+
+/**
+ * Serializable integration options.
+ */
+export interface MiddlewareOptions {
+  state: Record<string, unknown>
+  templatesDir: string
+  prefix: string
+  templatePages: boolean
+  /**
+   * Patterns of the routes written as template pages; other responses
+   * are never wrapped in a template document.
+   */
+  templateRoutes: string[]
+  serializeState: boolean
+  streaming: boolean
+  stateSources: Record<string, string | { collection: string }>
+  i18n?: { defaultLocale: string }
+}
+
+/**
+ * Everything the middleware renders with, as `virtual:astrogonia/config`
+ * provides it.
+ */
+export interface MiddlewareConfig {
+  options: MiddlewareOptions
+  /**
+   * Custom directives, handed over from the integration in dev.
+   */
+  directives: Record<string, AnyDirective>
+  /**
+   * Per-page state loader, handed over from the integration in dev.
+   */
+  loader?: Loader
+  /**
+   * Receives problems found while rendering.
+   * @defaultValue logs through `console`
+   */
+  report?: DiagnosticReporter
+  /**
+   * State sources, including functions, handed over from the integration
+   * in dev.
+   * @defaultValue `options.stateSources`
+   */
+  stateSources?: StateSources
+  /**
+   * Parsed state files keyed by their path as declared.
+   */
+  stateFiles: Record<string, unknown>
+  /**
+   * Flattened message catalogs keyed by locale.
+   */
+  catalogs: Catalogs
+  /**
+   * Compiled class names and CSS of the project's styles.
+   */
+  styleSheets: StyleSheets
+  /**
+   * Astro's `getCollection`, when a state source reads a collection.
+   */
+  getCollection?: (name: string) => Promise<{ id: string, data: unknown }[]>
+  /**
+   * Template HTML keyed by name, relative to `templatesDir`.
+   */
+  templates: Record<string, string>
+  /**
+   * Whether requests are served by the dev server, which also renders
+   * prerendered routes.
+   *
+   * @remarks
+   * Taken from the command the config module was generated for rather
+   * than `import.meta.env`, which the bundled middleware can't rely on.
+   */
+  dev: boolean
+}
+
+/**
+ * Create the middleware that renders Gonia directives in HTML responses.
+ *
+ * @remarks
+ * `astrogonia/middleware` creates it from `virtual:astrogonia/config`;
+ * `astrogonia/testing` creates it from test options.
+ */
+export function createMiddleware(config: MiddlewareConfig): MiddlewareHandler {
+  const { options, templates, styleSheets } = config
+  const reportDiagnostic = config.report ?? consoleReporter
+
+  const renderer = createRenderer({
+    state: Object.keys(styleSheets.exports).length > 0
+      ? { ...options.state, [STYLES_KEY]: styleSheets.exports }
+      : options.state,
+    directives: config.directives,
+    templates: createMemoryRegistry(templates),
+    prefix: options.prefix,
+    templatePages: options.templatePages,
+    serializeState: options.serializeState,
+    report: reportDiagnostic
+  })
+
+  // Function sources are only available when handed over in dev
+  const sources = config.stateSources ?? options.stateSources
+
+  /**
+   * Load the state of a request: the loader's state, over the values of
+   * any state sources under `$data`.
+   *
+   * @returns The state, or `undefined` if the loader failed
+   */
+  async function loadState(context: APIContext): Promise<Record<string, unknown> | undefined> {
+    const pageState = await loadPageState(config.loader, {
+      pathname: context.url.pathname,
+      params: context.params
+    }, reportDiagnostic)
+
+    if (!pageState || Object.keys(sources).length === 0) {
+      return pageState
+    }
+
+    const data = await loadStateSources(sources, {
+      readFile: (path) => {
+        if (!(path in config.stateFiles)) {
+          throw new Error(`Could not read ${path}`)
+        }
+        return config.stateFiles[path]
+      },
+      getCollection: async (name) => {
+        if (!config.getCollection) {
+          throw new Error('Content collections are not available')
+        }
+        return (await config.getCollection(name)).map(entry => toCollectionEntry(entry, name))
+      },
+      report: reportDiagnostic
+    })
+
+    return { [DATA_KEY]: data, ...pageState }
+  }
+
+  /**
+   * Inlines the styles of the sheets some HTML uses, leaving out those a
+   * response has already included.
+   */
+  function createStyleWriter(): (html: string) => Promise<string> {
+    const included = new Set<string>()
+
+    return async (html) => {
+      if (Object.keys(styleSheets.css).length === 0) {
+        return ''
+      }
+
+      const used = await usedStyleSheets(html, styleSheets, name => templates[name])
+      const names = used.filter(name => !included.has(name))
+      names.forEach(name => included.add(name))
+      return createStyleElements(styleSheets, names)
+    }
+  }
+
+  /**
+   * The request services a render of this request sees.
+   */
+  function requestServices(context: APIContext): RequestServices {
+    const services: RequestServices = {
+      request: context.request,
+      url: context.url,
+      params: context.params,
+      locals: context.locals as Record<string, unknown>
+    }
+
+    if (!options.i18n) {
+      return services
+    }
+
+    const { defaultLocale } = options.i18n
+    return {
+      ...services,
+      ...createI18nServices(config.catalogs, context.currentLocale ?? defaultLocale, defaultLocale)
+    }
+  }
+
+  return async (context, next) => {
+    // Prerendered routes are processed by the astro:build:done pass in
+    // production, so rendering them here would render them twice.
+    if (context.isPrerendered && !config.dev) {
+      return next()
+    }
+
+    const response = await next()
+
+    const contentType = response.headers.get('content-type')
+    if (!contentType?.includes('text/html')) {
+      return response
+    }
+
+    // Create new headers without content-length (it will be set automatically)
+    const headers = new Headers(response.headers)
+    headers.delete('content-length')
+
+    if (options.streaming && response.body) {
+      const body = renderStream(response.body, {
+        renderer,
+        loadState: () => loadState(context),
+        serializeState: options.serializeState,
+        report: reportDiagnostic,
+        source: context.url.pathname,
+        services: requestServices(context),
+        templatePage: options.templateRoutes.includes(context.routePattern),
+        styles: createStyleWriter()
+      })
+
+      return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers
+      })
+    }
+
+    const html = await response.text()
+
+    // Pages without directives are left as written, apart from the entry
+    // styles, as in the build pass
+    if (!mayContainDirectives(html, options.prefix)) {
+      return ENTRY_SHEET in styleSheets.css
+        ? new Response(insertStyles(html, await createStyleWriter()(html)), {
+            status: response.status,
+            statusText: response.statusText,
+            headers
+          })
+        : new Response(html, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers
+          })
+    }
+
+    const pageState = await loadState(context)
+
+    // The loader failure has been reported; serve the page unrendered
+    if (!pageState) {
+      return new Response(html, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+      })
+    }
+
+    const rendered = await renderer.render(html, {
+      state: pageState,
+      source: context.url.pathname,
+      services: requestServices(context),
+      templatePage: options.templateRoutes.includes(context.routePattern)
+    })
+    const processed = insertStyles(rendered, await createStyleWriter()(html))
+
+    return new Response(processed, {
+      status: response.status,
+      statusText: response.statusText,
+      headers
+    })
+  }
+}
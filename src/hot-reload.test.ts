@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest'
+import { EventEmitter } from 'node:events'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { hotReload } from './hot-reload.js'
+import { RESOLVED_CONFIG_MODULE_ID } from './config-module.js'
+
+function createServer() {
+  const configModule = { id: RESOLVED_CONFIG_MODULE_ID }
+  const directiveModule = { id: '/project/src/directives/greet.ts' }
+  const watcher = Object.assign(new EventEmitter(), { add: vi.fn() })
+
+  return {
+    configModule,
+    directiveModule,
+    watcher,
+    moduleGraph: {
+      getModuleById: vi.fn((id: string) => id === RESOLVED_CONFIG_MODULE_ID ? configModule : undefined),
+      getModulesByFile: vi.fn((file: string) => file === directiveModule.id ? new Set([directiveModule]) : undefined),
+      invalidateModule: vi.fn()
+    },
+    ws: { send: vi.fn() }
+  }
+}
+
+function start() {
+  const server = createServer()
+  const plugin = hotReload({ root: '/project', templatesDir: 'src/templates', stateFiles: ['src/data/site.yaml'], catalogsDir: 'src/i18n' })
+  ;(plugin.configureServer as (server: unknown) => void)(server)
+  return server
+}
+
+describe('hot reload', () => {
+  it('only runs in the dev server', () => {
+    expect(hotReload({ root: '/project', templatesDir: 'src/templates' }).apply).toBe('serve')
+  })
+
+  it('watches the templates and directives directories, state files and catalogs', () => {
+    const server = start()
+
+    expect(server.watcher.add).toHaveBeenCalledWith(['/project/src/templates', '/project/src/directives', '/project/src/data/site.yaml', '/project/src/i18n'])
+  })
+
+  it('reloads when a catalog changes', () => {
+    const server = start()
+
+    server.watcher.emit('change', '/project/src/i18n/fr.json')
+
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith(server.configModule)
+    expect(server.ws.send).toHaveBeenCalledWith({ type: 'full-reload' })
+  })
+
+  it('reloads when a state file changes', () => {
+    const server = start()
+
+    server.watcher.emit('change', '/project/src/data/site.yaml')
+
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith(server.configModule)
+    expect(server.ws.send).toHaveBeenCalledWith({ type: 'full-reload' })
+  })
+
+  it('invalidates the config module and reloads when a template changes', () => {
+    const server = start()
+
+    server.watcher.emit('change', '/project/src/templates/base.html')
+
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith(server.configModule)
+    expect(server.ws.send).toHaveBeenCalledWith({ type: 'full-reload' })
+  })
+
+  it('invalidates a changed directive module', () => {
+    const server = start()
+
+    server.watcher.emit('change', '/project/src/directives/greet.ts')
+
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith(server.directiveModule)
+    expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith(server.configModule)
+    expect(server.ws.send).toHaveBeenCalledWith({ type: 'full-reload' })
+  })
+
+  it('watches and reloads directive modules matched by directiveGlobs', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+    try {
+      await mkdir(join(root, 'packages/ui/directives'), { recursive: true })
+      await writeFile(join(root, 'packages/ui/directives/tabs.ts'), '')
+
+      const server = createServer()
+      const plugin = hotReload({ root, templatesDir: 'src/templates', directiveGlobs: ['packages/ui/directives/**/*.ts'] })
+      ;(plugin.configureServer as (server: unknown) => void)(server)
+
+      expect(server.watcher.add).toHaveBeenCalledWith([join(root, 'src/templates'), join(root, 'src/directives'), join(root, 'packages/ui/directives')])
+
+      server.watcher.emit('change', join(root, 'packages/ui/directives/tabs.test.ts'))
+      server.watcher.emit('change', join(root, 'packages/ui/directives/tabs.ts'))
+      await vi.waitFor(() => expect(server.ws.send).toHaveBeenCalledWith({ type: 'full-reload' }))
+
+      await rm(join(root, 'packages/ui/directives/tabs.ts'))
+      server.watcher.emit('unlink', join(root, 'packages/ui/directives/tabs.ts'))
+      await vi.waitFor(() => expect(server.ws.send).toHaveBeenCalledTimes(2))
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('picks up added and removed templates', () => {
+    const server = start()
+
+    server.watcher.emit('add', '/project/src/templates/docs.html')
+    server.watcher.emit('unlink', '/project/src/templates/old.html')
+
+    expect(server.ws.send).toHaveBeenCalledTimes(2)
+  })
+
+  it('ignores unrelated files', () => {
+    const server = start()
+
+    server.watcher.emit('change', '/project/src/pages/index.astro')
+    server.watcher.emit('change', '/project/src/templates/notes.md')
+
+    expect(server.moduleGraph.invalidateModule).not.toHaveBeenCalled()
+    expect(server.ws.send).not.toHaveBeenCalled()
+  })
+})
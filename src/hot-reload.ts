@@ -0,0 +1,162 @@
+/**
+ * Dev server reloads for template, directive, state file, catalog and
+ * style edits.
+ *
+ * @packageDocumentation
+ */
+
+import type { Plugin } from 'vite'
+import { join, relative, isAbsolute, resolve } from 'node:path'
+import { RESOLVED_CONFIG_MODULE_ID } from './config-module.js'
+import { DEFAULT_DIRECTIVES_DIR, findDirectiveModules } from './discovery.js'
+
+export interface HotReloadOptions {
+  /**
+   * Absolute path of the Astro project root.
+   */
+  root: string
+  /**
+   * Directory containing Gonia templates (relative to project root).
+   */
+  templatesDir: string
+  /**
+   * Directory of custom directives (relative to project root).
+   * @defaultValue 'src/directives'
+   */
+  directivesDir?: string
+  /**
+   * Glob patterns of custom directive sources (relative to project root).
+   * @defaultValue every `.ts` file under `directivesDir`
+   */
+  directiveGlobs?: string[]
+  /**
+   * State source files (relative to project root).
+   * @defaultValue []
+   */
+  stateFiles?: string[]
+  /**
+   * Directory of message catalogs (relative to project root), when
+   * translating.
+   */
+  catalogsDir?: string
+  /**
+   * Directory of the styles entry (relative to project root), when
+   * compiling styles.
+   */
+  stylesDir?: string
+  /**
+   * Directory of the pages (relative to project root), when pages may be
+   * written as template pages.
+   */
+  pagesDir?: string
+}
+
+function isWithin(file: string, dir: string): boolean {
+  const path = relative(dir, file)
+  return path !== '' && !path.startsWith('..') && !isAbsolute(path)
+}
+
+/**
+ * The directory a glob pattern starts from, up to its first wildcard.
+ */
+function globBase(pattern: string): string {
+  const segments = pattern.split('/')
+  const wildcard = segments.findIndex(segment => /[*?[\]{}()!]/.test(segment))
+  return segments.slice(0, wildcard === -1 ? -1 : wildcard).join('/')
+}
+
+/**
+ * Vite plugin that re-renders pages when templates, custom directives,
+ * state files, message catalogs or styles change in dev.
+ *
+ * @remarks
+ * The middleware builds its renderer from the virtual config module, which
+ * imports the directive modules and the templates and inlines the
+ * state files, catalogs and compiled styles. Invalidating that
+ * module makes the next request load a fresh renderer, and the full-page
+ * reload makes the browser ask for it, since neither templates nor SSR-only
+ * directives are part of the client module graph.
+ */
+export function hotReload(options: HotReloadOptions): Plugin {
+  const templatesPath = join(options.root, options.templatesDir)
+  const directivesDir = options.directivesDir ?? DEFAULT_DIRECTIVES_DIR
+  const directivesPath = join(options.root, directivesDir)
+  const globPaths = (options.directiveGlobs ?? []).map(pattern => join(options.root, globBase(pattern)))
+  const stateFiles = (options.stateFiles ?? []).map(file => resolve(options.root, file))
+  const catalogsPath = options.catalogsDir === undefined ? undefined : join(options.root, options.catalogsDir)
+  const stylesPath = options.stylesDir === undefined ? undefined : join(options.root, options.stylesDir)
+  const pagesPath = options.pagesDir === undefined ? undefined : join(options.root, options.pagesDir)
+
+  return {
+    name: 'astrogonia:hot-reload',
+    apply: 'serve',
+    configureServer(server) {
+      server.watcher.add([
+        templatesPath,
+        directivesPath,
+        ...globPaths.filter(path => path !== directivesPath),
+        ...stateFiles,
+        ...catalogsPath ? [catalogsPath] : [],
+        ...stylesPath ? [stylesPath] : []
+      ])
+
+      // Modules the globs matched, kept so that removing one still reloads
+      let directiveModules = new Set<string>()
+      const globbed = async (file: string) => {
+        const previous = directiveModules
+        directiveModules = new Set(await findDirectiveModules(options.root, directivesDir, options.directiveGlobs))
+        return previous.has(file) || directiveModules.has(file)
+      }
+      const scanned = globPaths.length > 0 ? globbed('').catch(() => false) : Promise.resolve(false)
+
+      const reload = (file: string) => {
+        const { moduleGraph } = server
+        for (const module of moduleGraph.getModulesByFile(file) ?? []) {
+          moduleGraph.invalidateModule(module)
+        }
+
+        // Added and removed files change the config module itself
+        const configModule = moduleGraph.getModuleById(RESOLVED_CONFIG_MODULE_ID)
+        if (configModule) {
+          moduleGraph.invalidateModule(configModule)
+        }
+
+        server.ws.send({ type: 'full-reload' })
+      }
+
+      const onChange = (file: string) => {
+        const isTemplate = (file.endsWith('.html') || file.endsWith('.css.ts')) && isWithin(file, templatesPath)
+        const isStateFile = stateFiles.includes(resolve(file))
+          || (catalogsPath !== undefined && isWithin(file, catalogsPath))
+          || (stylesPath !== undefined && isWithin(file, stylesPath))
+        if (isTemplate || isWithin(file, directivesPath) || isStateFile) {
+          reload(file)
+          return
+        }
+
+        // Whether a page is a template page is read into the config
+        // module; Astro reloads the page itself
+        if (pagesPath !== undefined && /\.(html|astro)$/.test(file) && isWithin(file, pagesPath)) {
+          const configModule = server.moduleGraph.getModuleById(RESOLVED_CONFIG_MODULE_ID)
+          if (configModule) {
+            server.moduleGraph.invalidateModule(configModule)
+          }
+          return
+        }
+
+        // Directive sources outside directivesDir are only known by globbing
+        if (file.endsWith('.ts') && globPaths.some(path => isWithin(file, path))) {
+          scanned
+            .then(() => globbed(resolve(file)))
+            .then(matched => matched && reload(file))
+            // A scan that fails leaves the page as it is
+            .catch(() => {})
+        }
+      }
+
+      server.watcher.on('add', onChange)
+      server.watcher.on('change', onChange)
+      server.watcher.on('unlink', onChange)
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createMemoryRegistry } from 'gonia'
+import { createRenderer } from './renderer.js'
+import { createStaticServices } from './services.js'
+import { createI18n, createI18nScript, flattenMessages, formatMessage } from './i18n.js'
+import { createI18nServices, localeFromPathname, readCatalogs } from './catalogs.js'
+
+describe('i18n', () => {
+  it('flattens nested catalogs into dotted keys', () => {
+    expect(flattenMessages({ nav: { home: 'Home', docs: 'Docs' }, count: 3 })).toEqual({
+      'nav.home': 'Home',
+      'nav.docs': 'Docs',
+      'count': '3'
+    })
+  })
+
+  it('fills placeholders with evaluated expressions', () => {
+    expect(formatMessage('Hello, {user.name}!', expr => expr === 'user.name' ? 'Ada' : undefined)).toBe('Hello, Ada!')
+    expect(formatMessage('Hello, {user.name}!')).toBe('Hello, {user.name}!')
+  })
+
+  it('falls back to the key and tracks the messages used', () => {
+    const i18n = createI18n('fr', { 'nav.home': 'Accueil', 'nav.docs': 'Docs' })
+
+    expect(i18n.t('nav.home')).toBe('Accueil')
+    expect(i18n.t('nav.missing')).toBe('nav.missing')
+    expect(i18n.used()).toEqual({ 'nav.home': 'Accueil' })
+  })
+
+  it('finds the locale of a page from its path', () => {
+    const locales = ['en', 'fr', { path: 'deutsch', codes: ['de', 'de-CH'] }]
+
+    expect(localeFromPathname('/fr/docs/', locales, 'en')).toBe('fr')
+    expect(localeFromPathname('/deutsch/', locales, 'en')).toBe('de')
+    expect(localeFromPathname('/docs/', locales, 'en')).toBe('en')
+    expect(localeFromPathname('/', locales, 'en')).toBe('en')
+  })
+
+  it('translates g-t during SSR and ships the messages used', async () => {
+    const renderer = createRenderer({
+      state: { user: { name: 'Ada' } },
+      templates: createMemoryRegistry({}),
+      serializeState: true
+    })
+    const catalogs = {
+      en: { 'nav.home': 'Home', 'greeting': 'Hello, {user.name}!' },
+      fr: { greeting: 'Bonjour, {user.name} !' }
+    }
+    const html = await renderer.render('<html><head></head><body><a g-t="nav.home"></a><p g-t="greeting"></p></body></html>', {
+      services: { ...createStaticServices('/fr/', {}), ...createI18nServices(catalogs, 'fr', 'en') }
+    })
+
+    expect(html).toContain('<a g-t="nav.home">Home</a><p g-t="greeting">Bonjour, Ada !</p>')
+    expect(html).toContain('<script id="gonia-i18n" type="application/json">{"locale":"fr","messages":{"nav.home":"Home","greeting":"Bonjour, {user.name} !"}}</script></body>')
+  })
+
+  it('escapes messages like the state script and replaces a shipped messages script', async () => {
+    const i18n = createI18n('en', { note: '</script>\u2028&\u2029' })
+    i18n.t('note')
+
+    expect(createI18nScript(i18n)).toBe('<script id="gonia-i18n" type="application/json">{"locale":"en","messages":{"note":"\\u003c/script\\u003e\\u2028\\u0026\\u2029"}}</script>')
+
+    const renderer = createRenderer({ templates: createMemoryRegistry({}), serializeState: true })
+    const html = await renderer.render('<html><head></head><body><a g-t="nav.home"></a><script id="gonia-i18n" type="application/json">{"locale":"en","messages":{}}</script></body></html>', {
+      services: { ...createStaticServices('/', {}), ...createI18nServices({ en: { 'nav.home': 'Home' } }, 'en', 'en') }
+    })
+
+    expect(html.match(/id="gonia-i18n"/g)).toHaveLength(1)
+    expect(html).toContain('<script id="gonia-i18n" type="application/json">{"locale":"en","messages":{"nav.home":"Home"}}</script></body>')
+  })
+
+  it('leaves g-t content alone without translations', async () => {
+    const renderer = createRenderer({ templates: createMemoryRegistry({}), serializeState: false })
+
+    expect(await renderer.render('<a g-t="nav.home">Home</a>')).toBe('<a g-t="nav.home">Home</a>')
+  })
+
+  it('reads catalogs and reports the ones that fail to parse', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-i18n-'))
+    try {
+      await mkdir(join(root, 'src/i18n'), { recursive: true })
+      await writeFile(join(root, 'src/i18n/en.json'), '{"nav":{"home":"Home"}}')
+      await writeFile(join(root, 'src/i18n/fr.yaml'), 'nav:\n  home: Accueil\n')
+      await writeFile(join(root, 'src/i18n/de.json'), '{')
+      await writeFile(join(root, 'src/i18n/notes.md'), '# Notes')
+      const report = vi.fn()
+
+      expect(await readCatalogs(root, 'src/i18n', report)).toEqual({
+        en: { 'nav.home': 'Home' },
+        fr: { 'nav.home': 'Accueil' }
+      })
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({ severity: 'error', code: 'i18n-catalog', file: 'src/i18n/de.json' }))
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Translations for the `g-t` directive.
+ *
+ * @packageDocumentation
+ */
+
+import type { Expression } from 'gonia'
+import { serializeState } from './state.js'
+
+/**
+ * Id of the `<script type="application/json">` block holding the locale and
+ * the messages a page was rendered with.
+ */
+export const I18N_SCRIPT_ID = 'gonia-i18n'
+
+const I18N_SCRIPT_PATTERN = /<script id="gonia-i18n" type="application\/json">[\s\S]*?<\/script>/g
+
+/**
+ * Messages keyed by dotted path, e.g. `nav.home`.
+ */
+export type Messages = Record<string, string>
+
+/**
+ * Translations for one locale, injected into directives as `$i18n`.
+ */
+export interface I18n {
+  /**
+   * The locale messages are translated to, e.g. `fr`.
+   */
+  locale: string
+  /**
+   * Translate a message key.
+   *
+   * @param key - Dotted message key
+   * @param evaluate - Evaluates the `{expr}` placeholders in the message
+   * @returns The message, or the key itself when the catalog has no
+   * message for it
+   */
+  t(key: string, evaluate?: (expr: string) => unknown): string
+  /**
+   * The messages looked up so far, which are the ones the client needs.
+   */
+  used(): Messages
+}
+
+/**
+ * Flatten a nested catalog into dotted keys.
+ *
+ * @example
+ * ```ts
+ * flattenMessages({ nav: { home: 'Home' } })  // { 'nav.home': 'Home' }
+ * ```
+ */
+export function flattenMessages(catalog: unknown, prefix = ''): Messages {
+  const messages: Messages = {}
+  if (typeof catalog !== 'object' || catalog === null) {
+    return messages
+  }
+
+  for (const [key, value] of Object.entries(catalog)) {
+    const path = prefix + key
+    if (typeof value === 'object' && value !== null) {
+      Object.assign(messages, flattenMessages(value, path + '.'))
+    } else if (value !== undefined && value !== null) {
+      messages[path] = String(value)
+    }
+  }
+
+  return messages
+}
+
+/**
+ * Fill the `{expr}` placeholders of a message.
+ */
+export function formatMessage(message: string, evaluate?: (expr: string) => unknown): string {
+  if (!evaluate) {
+    return message
+  }
+  return message.replace(/\{\s*([^{}]+?)\s*\}/g, (_, expr: string) => String(evaluate(expr) ?? ''))
+}
+
+/**
+ * Create translations for a locale from its messages.
+ */
+export function createI18n(locale: string, messages: Messages): I18n {
+  const used = new Set<string>()
+
+  return {
+    locale,
+    t(key, evaluate) {
+      const message = messages[key]
+      if (message === undefined) {
+        return key
+      }
+
+      used.add(key)
+      return formatMessage(message, evaluate)
+    },
+    used() {
+      return Object.fromEntries([...used].map(key => [key, messages[key]]))
+    }
+  }
+}
+
+/**
+ * Markup for the script holding the messages a page used.
+ *
+ * @remarks
+ * Serialized like the state script, so messages can't close the element.
+ */
+export function createI18nScript(i18n: I18n): string {
+  const json = serializeState({ locale: i18n.locale, messages: i18n.used() })
+  return `<script id="${I18N_SCRIPT_ID}" type="application/json">${json}</script>`
+}
+
+/**
+ * Remove the messages script from some markup.
+ */
+export function removeI18nScript(html: string): string {
+  return html.replace(I18N_SCRIPT_PATTERN, () => '')
+}
+
+/**
+ * Translate the element's text on the server.
+ *
+ * @remarks
+ * The value is a message key, and placeholders in the message are
+ * evaluated in the element's scope. Without translations for the page,
+ * the element keeps its content.
+ *
+ * @example
+ * ```html
+ * <a href="/" g-t="nav.home"></a>
+ * <p g-t="greeting"></p>  <!-- "Hello, {user.name}!" -->
+ * ```
+ */
+export const t = function t($expr: Expression, $element: Element, $eval: (expr: Expression) => unknown, $i18n: I18n) {
+  // The service resolves to nothing outside a translated render
+  if (typeof $i18n.t === 'function') {
+    $element.textContent = $i18n.t($expr, expr => $eval(expr as Expression))
+  }
+}
+t.$inject = ['$expr', '$element', '$eval', '$i18n']
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import type { Expression } from 'gonia'
+import { include, parseInclude } from './includes.js'
+
+describe('includes', () => {
+  it('splits the template name from its state', () => {
+    expect(parseInclude('cards/post')).toEqual({ name: 'cards/post', state: undefined })
+    expect(parseInclude(' cards/post with { title: post.title } ')).toEqual({ name: 'cards/post', state: '{ title: post.title }' })
+    expect(() => parseInclude('  ')).toThrow('g-include needs a template name')
+  })
+
+  it('defines the state on the scope', () => {
+    const scope: Record<string, unknown> = {}
+    include('card with { title: "A" }' as Expression, () => ({ title: 'A' }), scope)
+
+    expect(scope).toEqual({ title: 'A' })
+    expect(() => include('card with items' as Expression, () => [], scope)).toThrow('g-include state for "card" must be an object, got an array')
+  })
+})
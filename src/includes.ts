@@ -0,0 +1,79 @@
+/**
+ * Partials pulled in place with `g-include`, each with its own scope.
+ *
+ * @packageDocumentation
+ */
+
+import type { Expression } from 'gonia'
+
+/**
+ * Attribute of an element whose content is a partial.
+ */
+export const INCLUDE_ATTR = 'g-include'
+
+/**
+ * A `g-include` value, split into the template name and the expression
+ * of its state.
+ */
+export interface IncludeValue {
+  /**
+   * Template name, as `g-template` takes it.
+   */
+  name: string
+  /**
+   * Expression whose value is added to the partial's scope.
+   */
+  state?: string
+}
+
+const INCLUDE_PATTERN = /^\s*(\S+)(?:\s+with\s+([\s\S]+?))?\s*$/
+
+/**
+ * Split a `g-include` value.
+ *
+ * @throws If the value names no template
+ *
+ * @example
+ * ```ts
+ * parseInclude('cards/post with { title: post.title }')
+ * // { name: 'cards/post', state: '{ title: post.title }' }
+ * ```
+ */
+export function parseInclude(value: string): IncludeValue {
+  const match = INCLUDE_PATTERN.exec(value)
+  if (!match) {
+    throw new Error(`[astrogonia] ${INCLUDE_ATTR} needs a template name, got "${value}"`)
+  }
+  return { name: match[1], state: match[2] }
+}
+
+/**
+ * Give an included partial its state.
+ *
+ * @remarks
+ * The partial is already in place: the renderer expands includes before
+ * rendering, see `expandIncludes`. The directive is registered with its
+ * own scope, so the state given with `with` is only seen inside the
+ * element, on top of the enclosing state, on the server and in the
+ * browser alike.
+ *
+ * @throws If the state isn't an object
+ */
+export const include = function include($expr: Expression, $eval: (expr: Expression) => unknown, $scope: Record<string, unknown>) {
+  const { name, state } = parseInclude(String($expr))
+  if (state === undefined) {
+    return
+  }
+
+  const value = $eval(state as Expression)
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`[astrogonia] ${INCLUDE_ATTR} state for "${name}" must be an object, got ${Array.isArray(value) ? 'an array' : String(value)}`)
+  }
+
+  // Defined rather than assigned: scopes such as those of g-for items
+  // write keys they don't have through to the enclosing state
+  for (const [key, item] of Object.entries(value)) {
+    Object.defineProperty($scope, key, { value: item, writable: true, enumerable: true, configurable: true })
+  }
+}
+include.$inject = ['$expr', '$eval', '$scope']
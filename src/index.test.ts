@@ -1,5 +1,11 @@
 import { describe, it, expect, vi } from 'vitest'
-import astrogonia, { remarkDirectives } from './index.js'
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import astrogonia, { remarkDirectives, type AstrogoniaOptions } from './index.js'
+import { generateConfigModule, RESOLVED_CONFIG_MODULE_ID } from './config-module.js'
+import remarkDirective from 'remark-directive'
 
 describe('astrogonia', () => {
   describe('integration', () => {
@@ -43,7 +49,75 @@ describe('astrogonia', () => {
       expect(updateConfig).toHaveBeenCalledTimes(1)
 
       const updateArgs = updateConfig.mock.calls[0][0]
-      expect(updateArgs.markdown?.remarkPlugins).toHaveLength(1)
+      expect(updateArgs.markdown?.remarkPlugins).toEqual([
+        remarkDirective,
+        [remarkDirectives, { directiveSources: new Map(), prefix: 'g-', directivesDir: 'src/directives', report: expect.any(Function) }]
+      ])
+    })
+
+    it('tells the middleware whether it runs in the dev server', async () => {
+      const modes: string[] = []
+      for (const command of ['dev', 'build']) {
+        const integration = astrogonia()
+        const updateConfig = vi.fn()
+        const hook = integration.hooks['astro:config:setup'] as unknown as (options: Record<string, unknown>) => Promise<void>
+        await hook({ config: { root: new URL('file:///test/') }, updateConfig, addMiddleware: vi.fn(), injectScript: vi.fn(), command })
+
+        const plugins: { name: string, load?: (id: string) => Promise<string> }[] = updateConfig.mock.calls[0][0].vite.plugins
+        const config = plugins.find(plugin => plugin.name === 'astrogonia:config')
+        modes.push(/export const dev = (\w+);/.exec(await config!.load!(RESOLVED_CONFIG_MODULE_ID))![1])
+      }
+
+      expect(modes).toEqual(['true', 'false'])
+    })
+
+    it('discovers custom directives for markdown imports', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      try {
+        await mkdir(join(root, 'src/directives/charts'), { recursive: true })
+        await writeFile(join(root, 'src/directives/index.ts'), `import './charts/bar.js'`)
+        await writeFile(join(root, 'src/directives/charts/bar.ts'), `directive('g-bar-chart', barChart, { scope: true })`)
+
+        const integration = astrogonia({ directiveSources: new Map([['legacy', './legacy.ts']]) })
+        const updateConfig = vi.fn()
+        const hook = integration.hooks['astro:config:setup'] as unknown as (options: { config: { root: URL }, updateConfig: typeof updateConfig, addMiddleware: () => void, command: string }) => Promise<void>
+        await hook({ config: { root: pathToFileURL(root + '/') }, updateConfig, addMiddleware: vi.fn(), command: 'build' })
+
+        const [, [, remarkOptions]] = updateConfig.mock.calls[0][0].markdown.remarkPlugins
+        expect(remarkOptions.directiveSources).toEqual(new Map([
+          ['g-bar-chart', '/src/directives/charts/bar.ts'],
+          ['bar-chart', '/src/directives/charts/bar.ts'],
+          ['legacy', './legacy.ts'],
+        ]))
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('discovers directives with a custom prefix and globs', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      try {
+        await mkdir(join(root, 'packages/ui/directives'), { recursive: true })
+        await writeFile(join(root, 'packages/ui/directives/tabs.ts'), `directive('x-tabs', tabs)`)
+
+        const integration = astrogonia({ prefix: 'x-', directiveGlobs: ['packages/ui/directives/*.ts'] })
+        const updateConfig = vi.fn()
+        const hook = integration.hooks['astro:config:setup'] as unknown as (options: { config: { root: URL }, updateConfig: typeof updateConfig, addMiddleware: () => void, command: string }) => Promise<void>
+        await hook({ config: { root: pathToFileURL(root + '/') }, updateConfig, addMiddleware: vi.fn(), command: 'build' })
+
+        const [, [, remarkOptions]] = updateConfig.mock.calls[0][0].markdown.remarkPlugins
+        expect(remarkOptions.prefix).toBe('x-')
+        expect(remarkOptions.directiveSources).toEqual(new Map([
+          ['x-tabs', '/packages/ui/directives/tabs.ts'],
+          ['tabs', '/packages/ui/directives/tabs.ts'],
+        ]))
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('rejects a prefix that cannot start an attribute', () => {
+      expect(() => astrogonia({ prefix: 'X_' })).toThrow('[astrogonia] prefix must be lowercase letters and digits ending with "-", such as "x-", got "X_"')
     })
 
     it('can disable frontmatter directives', async () => {
@@ -59,13 +133,478 @@ describe('astrogonia', () => {
       const updateArgs = updateConfig.mock.calls[0][0]
       expect(updateArgs.markdown).toBeUndefined()
     })
+
+    it('adds middleware for on-demand routes in production builds', async () => {
+      const integration = astrogonia()
+      const updateConfig = vi.fn()
+      const addMiddleware = vi.fn()
+      const config = { root: new URL('file:///test/') }
+      const command = 'build'
+
+      const hook = integration.hooks['astro:config:setup'] as unknown as (options: { config: typeof config, updateConfig: typeof updateConfig, addMiddleware: typeof addMiddleware, command: string }) => Promise<void>
+      await hook({ config, updateConfig, addMiddleware, command })
+
+      expect(addMiddleware).toHaveBeenCalledWith({
+        entrypoint: 'astrogonia/middleware',
+        order: 'post'
+      })
+    })
+
+    it('injects the hydration bootstrap when hydrate is enabled', async () => {
+      const integration = astrogonia({ hydrate: true })
+      const injectScript = vi.fn()
+      const config = { root: new URL('file:///test/') }
+
+      const hook = integration.hooks['astro:config:setup'] as unknown as (options: { config: typeof config, updateConfig: () => void, addMiddleware: () => void, injectScript: typeof injectScript, command: string }) => Promise<void>
+      await hook({ config, updateConfig: vi.fn(), addMiddleware: vi.fn(), injectScript, command: 'build' })
+
+      expect(injectScript).toHaveBeenCalledWith('page', expect.stringContaining(`from 'astrogonia/client'`))
+    })
+
+    it('injects the islands loader instead for island hydration', async () => {
+      const integration = astrogonia({ hydrate: 'islands' })
+      const injectScript = vi.fn()
+      const config = { root: new URL('file:///test/') }
+
+      const hook = integration.hooks['astro:config:setup'] as unknown as (options: { config: typeof config, updateConfig: () => void, addMiddleware: () => void, injectScript: typeof injectScript, command: string }) => Promise<void>
+      await hook({ config, updateConfig: vi.fn(), addMiddleware: vi.fn(), injectScript, command: 'build' })
+
+      expect(injectScript).toHaveBeenCalledOnce()
+      expect(injectScript).toHaveBeenCalledWith('page', expect.stringContaining(`from 'astrogonia/islands'`))
+    })
+
+    it('can disable on-demand rendering in production builds', async () => {
+      const integration = astrogonia({ onDemand: false })
+      const updateConfig = vi.fn()
+      const addMiddleware = vi.fn()
+      const config = { root: new URL('file:///test/') }
+      const command = 'build'
+
+      const hook = integration.hooks['astro:config:setup'] as unknown as (options: { config: typeof config, updateConfig: typeof updateConfig, addMiddleware: typeof addMiddleware, command: string }) => Promise<void>
+      await hook({ config, updateConfig, addMiddleware, command })
+
+      expect(addMiddleware).not.toHaveBeenCalled()
+    })
+
+    it('warns about runtime options only when some route renders on demand', async () => {
+      const warnings: string[][] = []
+      for (const isPrerendered of [true, false]) {
+        const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+        const integration = astrogonia({ loader: () => ({}) })
+        const setup = integration.hooks['astro:config:setup'] as unknown as (options: Record<string, unknown>) => Promise<void>
+        const routesResolved = integration.hooks['astro:routes:resolved'] as unknown as (options: Record<string, unknown>) => void
+        await setup({ config: { root: new URL('file:///test/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), injectScript: vi.fn(), command: 'build', logger })
+        routesResolved({
+          routes: [
+            { type: 'endpoint', origin: 'internal', pattern: '/_image', patternRegex: /^\/_image$/, params: [], isPrerendered: false },
+            { type: 'page', origin: 'project', pattern: '/account', patternRegex: /^\/account$/, params: [], isPrerendered }
+          ]
+        })
+        warnings.push(logger.warn.mock.calls.map(([message]) => message))
+      }
+
+      expect(warnings[0]).toEqual([])
+      expect(warnings[1]).toEqual([expect.stringContaining('on-demand routes such as /account need directives registered under src/directives')])
+    })
+  })
+
+  describe('config:done hook', () => {
+    it('injects types for the state, templates and directives', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      try {
+        await mkdir(join(root, 'src/directives'), { recursive: true })
+        await mkdir(join(root, 'src/templates/docs'), { recursive: true })
+        await writeFile(join(root, 'src/directives/chart.ts'), `directive('g-chart', chart)`)
+        await writeFile(join(root, 'src/templates/docs/page.html'), '<main><slot></slot></main>')
+        await writeFile(join(root, 'src/site.json'), '{"title":"Docs"}')
+
+        const integration = astrogonia({
+          state: { count: 0 },
+          stateSources: { site: 'src/site.json' },
+          directives: { custom: vi.fn(() => {}) }
+        })
+        const setup = integration.hooks['astro:config:setup'] as unknown as (options: { config: { root: URL }, updateConfig: () => void, addMiddleware: () => void, command: string }) => Promise<void>
+        const configDone = integration.hooks['astro:config:done'] as unknown as (options: { injectTypes: (types: { filename: string, content: string }) => URL }) => Promise<void>
+        const injectTypes = vi.fn(() => pathToFileURL(join(root, '.astro/integrations/astrogonia/astrogonia.d.ts')))
+        await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'sync' })
+        await configDone({ injectTypes })
+
+        const [[{ filename, content }]] = injectTypes.mock.calls as unknown as [[{ filename: string, content: string }]]
+        expect(filename).toBe('astrogonia.d.ts')
+        expect(content).toContain('  interface RegisteredState {\n    count: number\n    $data: {\n      site: {\n        title: string\n      }\n    }\n  }')
+        expect(content).toContain('  interface RegisteredTemplates {\n    "docs/page": true\n  }')
+        expect(content).toContain('"g-chart": true')
+        expect(content).toContain('"g-custom"?: string')
+
+        const manifest = JSON.parse(await readFile(join(root, '.astro/integrations/astrogonia/check.json'), 'utf-8'))
+        expect(manifest).toEqual({
+          outDir: 'dist',
+          templatesDir: 'src/templates',
+          directives: expect.arrayContaining(['g-chart', 'g-custom', 'g-text']),
+          prefix: 'g-',
+          state: ['count', '$data']
+        })
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
   })
 
   describe('build:done hook', () => {
+    type SetupHook = (options: { config: { root: URL }, updateConfig: () => void, addMiddleware: () => void, command: string, logger?: Logger }) => Promise<void>
+    type Logger = Record<'info' | 'warn' | 'error' | 'debug', (message: string) => void>
+    type BuildDoneHook = (options: { dir: URL, assets?: Map<string, URL[]>, logger?: Logger }) => Promise<void>
+
+    const page = '<!DOCTYPE html><html><body><p g-text="name"></p></body></html>'
+    const rendered = '<!DOCTYPE html><html><body><p g-text="name">Ada</p><script id="gonia-state" type="application/json">{"name":"Ada"}</script></body></html>'
+
+    type RoutesResolvedHook = (options: { routes: { type: string, patternRegex: RegExp, params: string[], pattern?: string, entrypoint?: string }[] }) => void
+
+    async function build(files: Record<string, string>, options: AstrogoniaOptions = {}, assets?: (dir: URL) => Map<string, URL[]>, logger?: Logger) {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      const dir = pathToFileURL(join(root, 'dist') + '/')
+
+      for (const [path, html] of Object.entries(files)) {
+        const filePath = join(root, 'dist', path)
+        await mkdir(join(filePath, '..'), { recursive: true })
+        await writeFile(filePath, html)
+      }
+
+      const integration = astrogonia({ state: { name: 'Ada' }, ...options })
+      const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+      const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+      await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build' })
+
+      const routesResolved = integration.hooks['astro:routes:resolved'] as unknown as RoutesResolvedHook
+      routesResolved({
+        routes: [
+          { type: 'page', patternRegex: /^\/blog\/([^/]+?)\/?$/, params: ['slug'] },
+          { type: 'page', patternRegex: /^\/$/, params: [] },
+        ]
+      })
+
+      try {
+        await buildDone({ dir, assets: assets?.(dir), logger })
+        const output: Record<string, string> = {}
+        for (const path of Object.keys(files)) {
+          output[path] = await readFile(join(root, 'dist', path), 'utf-8')
+        }
+        return output
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    }
+
     it('provides astro:build:done hook', () => {
       const integration = astrogonia()
       expect(integration.hooks).toHaveProperty('astro:build:done')
     })
+
+    it('processes every emitted HTML file regardless of build format', async () => {
+      const output = await build({
+        'index.html': page,
+        'about.html': page,
+        'docs/intro/index.html': page,
+        '404.html': page,
+      })
+
+      expect(output).toEqual({
+        'index.html': rendered,
+        'about.html': rendered,
+        'docs/intro/index.html': rendered,
+        '404.html': rendered,
+      })
+    })
+
+    it('leaves pages without directives as written', async () => {
+      const plain = '<!DOCTYPE html><html><head><title>Plain</title></head><body><p>No Gonia here</p></body></html>'
+      const output = await build({ 'plain/index.html': plain, 'index.html': page })
+
+      expect(output['plain/index.html']).toBe(plain)
+      expect(output['index.html']).toBe(rendered)
+    })
+
+    it('honours include and exclude globs', async () => {
+      const output = await build({
+        'docs/index.html': page,
+        'docs/raw/index.html': page,
+        'blog/index.html': page,
+      }, { include: ['docs/**/*.html'], exclude: ['docs/raw/**'] })
+
+      expect(output).toEqual({
+        'docs/index.html': rendered,
+        'docs/raw/index.html': page,
+        'blog/index.html': page,
+      })
+    })
+
+    it('renders each page with state from the loader', async () => {
+      const loader = vi.fn(async ({ params }: { params: Record<string, string | undefined> }) => ({ name: params.slug ?? 'home' }))
+      const output = await build({
+        'index.html': page,
+        'blog/hello/index.html': page,
+      }, { loader, serializeState: false })
+
+      expect(loader).toHaveBeenCalledWith({ pathname: '/', params: {} })
+      expect(loader).toHaveBeenCalledWith({ pathname: '/blog/hello/', params: { slug: 'hello' } })
+      expect(output).toEqual({
+        'index.html': '<!DOCTYPE html><html><body><p g-text="name">home</p></body></html>',
+        'blog/hello/index.html': '<!DOCTYPE html><html><body><p g-text="name">hello</p></body></html>',
+      })
+    })
+
+    it('injects a snapshot of each page request into directives', async () => {
+      const route = ($element: Element, $url: URL, $params: Record<string, string | undefined>) => {
+        $element.textContent = `${$url.pathname} ${$params.slug}`
+      }
+      route.$inject = ['$element', '$url', '$params']
+
+      const output = await build(
+        { 'blog/hello/index.html': '<!DOCTYPE html><html><body><p g-route></p></body></html>' },
+        { directives: { route }, serializeState: false }
+      )
+
+      expect(output['blog/hello/index.html']).toBe('<!DOCTYPE html><html><body><p g-route="">/blog/hello/ hello</p></body></html>')
+    })
+
+    it('exposes state sources under $data', async () => {
+      const output = await build(
+        { 'index.html': '<!DOCTYPE html><html><body><p g-text="$data.nav.join(\', \')"></p></body></html>' },
+        { stateSources: { nav: () => ['Home', 'Docs'] }, serializeState: false }
+      )
+
+      expect(output['index.html']).toBe('<!DOCTYPE html><html><body><p g-text="$data.nav.join(\', \')">Home, Docs</p></body></html>')
+    })
+
+    it('can leave state serialization off', async () => {
+      const output = await build({ 'index.html': page }, { serializeState: false })
+
+      expect(output['index.html']).toBe('<!DOCTYPE html><html><body><p g-text="name">Ada</p></body></html>')
+    })
+
+    it('reports SSR errors and leaves the page unrendered parts intact', async () => {
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+      const broken = '<!DOCTYPE html><html><body g-template="missing"><p g-text="name"></p></body></html>'
+      const output = await build({ 'index.html': broken }, { serializeState: false }, undefined, logger)
+
+      expect(output['index.html']).toBe('<!DOCTYPE html><html><body g-template="missing"><p g-text="name">Ada</p></body></html>')
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('index.html:1: Could not apply template "missing"'))
+    })
+
+    it('fails the build on SSR errors in strict mode', async () => {
+      const broken = '<!DOCTYPE html><html><body g-scope="{oops"><p g-text="name"></p></body></html>'
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+
+      await expect(build({ 'index.html': broken }, { strict: true }, undefined, logger))
+        .rejects.toThrow('[astrogonia] 1 SSR error in strict mode')
+    })
+
+    it('builds template documents only for routes written as template pages', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      const dir = pathToFileURL(join(root, 'dist') + '/')
+      const shell = '<title>Docs</title><main g-template="base"><p g-text="name"></p></main>'
+      const files = {
+        'src/templates/base.html': '<!DOCTYPE html><html><head></head><body><slot></slot></body></html>',
+        'src/pages/docs.html': shell,
+        'src/pages/card.astro': `---\nexport const partial = true\n---\n${shell}`,
+        'dist/docs/index.html': shell,
+        'dist/card/index.html': shell
+      }
+
+      try {
+        for (const [path, content] of Object.entries(files)) {
+          await mkdir(join(root, path, '..'), { recursive: true })
+          await writeFile(join(root, path), content)
+        }
+
+        const integration = astrogonia({ state: { name: 'Ada' }, serializeState: false, cache: false })
+        const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+        const routesResolved = integration.hooks['astro:routes:resolved'] as unknown as RoutesResolvedHook
+        const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+        await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build' })
+        routesResolved({
+          routes: [
+            { type: 'page', pattern: '/docs', patternRegex: /^\/docs\/?$/, params: [], entrypoint: 'src/pages/docs.html' },
+            { type: 'page', pattern: '/card', patternRegex: /^\/card\/?$/, params: [], entrypoint: 'src/pages/card.astro' }
+          ]
+        })
+        await buildDone({ dir })
+
+        expect(await readFile(join(root, 'dist/docs/index.html'), 'utf-8'))
+          .toBe('<!DOCTYPE html><html><head><title>Docs</title></head><body><p g-text="name">Ada</p></body></html>')
+        expect(await readFile(join(root, 'dist/card/index.html'), 'utf-8'))
+          .toBe('<title>Docs</title><main g-template="base"><p g-text="name">Ada</p></main>')
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('matches directory-format pages to routes without a trailing slash', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      const dir = pathToFileURL(join(root, 'dist') + '/')
+      const shell = '<main g-template="base"><p g-text="name"></p></main>'
+      const files = {
+        'src/templates/base.html': '<!DOCTYPE html><html><head></head><body><slot></slot></body></html>',
+        'src/pages/docs.html': shell,
+        'dist/docs/index.html': shell,
+        'dist/blog/hello/index.html': '<p g-text="name"></p>'
+      }
+
+      try {
+        for (const [path, content] of Object.entries(files)) {
+          await mkdir(join(root, path, '..'), { recursive: true })
+          await writeFile(join(root, path), content)
+        }
+
+        const loader = vi.fn(async ({ params }: { params: Record<string, string | undefined> }) => ({ name: params.slug ?? 'Ada' }))
+        const integration = astrogonia({ loader, serializeState: false, cache: false })
+        const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+        const routesResolved = integration.hooks['astro:routes:resolved'] as unknown as RoutesResolvedHook
+        const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+        await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build' })
+        // As Astro resolves them with trailingSlash: 'never'
+        routesResolved({
+          routes: [
+            { type: 'page', pattern: '/docs', patternRegex: /^\/docs$/, params: [], entrypoint: 'src/pages/docs.html' },
+            { type: 'page', pattern: '/blog/[slug]', patternRegex: /^\/blog\/([^/]+?)$/, params: ['slug'], entrypoint: 'src/pages/blog/[slug].astro' }
+          ]
+        })
+        await buildDone({ dir })
+
+        expect(loader).toHaveBeenCalledWith({ pathname: '/blog/hello/', params: { slug: 'hello' } })
+        expect(await readFile(join(root, 'dist/blog/hello/index.html'), 'utf-8')).toBe('<p g-text="name">hello</p>')
+        expect(await readFile(join(root, 'dist/docs/index.html'), 'utf-8'))
+          .toBe('<!DOCTYPE html><html><head></head><body><p g-text="name">Ada</p></body></html>')
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('renders Markdown pages that Astro writes without a <body> tag', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      const dir = pathToFileURL(join(root, 'dist') + '/')
+      // What Astro writes for a .md page with frontmatter `template` and
+      // `state` and no layout
+      const markdown = '<!DOCTYPE html><meta charset="utf-8"><script type="module">\nimport { template, text } from \'gonia/directives\';\n</script><script id="gonia-state" type="application/json">{"user":{"name":"Grace"}}</script><div g-template="base"><h1 id="welcome">Welcome</h1>\n<p>Hello <span g-text="user.name">guest</span>!</p></div>'
+
+      try {
+        await mkdir(join(root, 'src/templates'), { recursive: true })
+        await mkdir(join(root, 'dist/welcome'), { recursive: true })
+        await writeFile(join(root, 'src/templates/base.html'), '<main><slot></slot></main>')
+
+        for (const astroTemplating of [false, true]) {
+          await writeFile(join(root, 'dist/welcome/index.html'), markdown)
+          const integration = astrogonia({ state: { site: 'Docs' }, astroTemplating, cache: false })
+          const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+          const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+          await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build' })
+          await buildDone({ dir })
+
+          expect(await readFile(join(root, 'dist/welcome/index.html'), 'utf-8')).toBe('<!DOCTYPE html><meta charset="utf-8"><script type="module">\nimport { template, text } from \'gonia/directives\';\n</script><div g-template="base"><main><h1 id="welcome">Welcome</h1><p>Hello <span g-text="user.name">Grace</span>!</p></main></div><script id="gonia-state" type="application/json">{"site":"Docs","user":{"name":"Grace"}}</script>')
+        }
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('counts page layout errors from setup in strict mode', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      const dir = pathToFileURL(join(root, 'dist') + '/')
+      const page = `---\nimport Layout from '../layouts/Layout.astro'\n---\n<Layout><main g-template="base"></main></Layout>\n`
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+
+      try {
+        await mkdir(join(root, 'src/pages'), { recursive: true })
+        await mkdir(join(root, 'dist'), { recursive: true })
+        await writeFile(join(root, 'src/pages/docs.astro'), page)
+        await writeFile(join(root, 'dist/index.html'), '<!DOCTYPE html><html><body><p g-text="name"></p></body></html>')
+
+        const integration = astrogonia({ state: { name: 'Ada' }, strict: true, cache: false })
+        const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+        const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+        await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build', logger })
+        await expect(buildDone({ dir, logger })).rejects.toThrow('[astrogonia] 1 SSR error in strict mode')
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('reuses pages from the cache until their inputs change', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      const dir = pathToFileURL(join(root, 'dist') + '/')
+      const templated = '<!DOCTYPE html><html><body g-template="base"><p g-text="name"></p></body></html>'
+      await mkdir(join(root, 'src/templates'), { recursive: true })
+      await mkdir(join(root, 'dist'), { recursive: true })
+
+      const runBuild = async (state: Record<string, unknown>, config: Record<string, unknown> = {}) => {
+        await writeFile(join(root, 'dist/index.html'), templated)
+        const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+        const integration = astrogonia({ state, serializeState: false })
+        const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+        const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+        await setup({ config: { root: pathToFileURL(root + '/'), ...config }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build' })
+        await buildDone({ dir, logger })
+
+        return {
+          html: await readFile(join(root, 'dist/index.html'), 'utf-8'),
+          summary: logger.info.mock.calls.map(([message]) => message).join('\n')
+        }
+      }
+
+      try {
+        await writeFile(join(root, 'src/templates/base.html'), '<main><slot></slot></main>')
+        const first = await runBuild({ name: 'Ada' })
+        const second = await runBuild({ name: 'Ada' })
+
+        expect(first.summary).toContain('Processed 1 page in')
+        expect(first.summary).toContain('(0 from cache)')
+        expect(first.summary).toContain('index.html')
+        expect(second.summary).toContain('(1 from cache)')
+        expect(second.html).toBe(first.html)
+
+        const changedState = await runBuild({ name: 'Grace' })
+        expect(changedState.summary).toContain('(0 from cache)')
+        expect(changedState.html).toContain('Grace')
+
+        await writeFile(join(root, 'src/templates/base.html'), '<article><slot></slot></article>')
+        const changedTemplate = await runBuild({ name: 'Grace' })
+        expect(changedTemplate.summary).toContain('(0 from cache)')
+        expect(changedTemplate.html).toBe('<!DOCTYPE html><html><body><article><p g-text="name">Grace</p></article></body></html>')
+
+        const i18n = { defaultLocale: 'en', locales: ['en'] }
+        expect((await runBuild({ name: 'Grace' }, { i18n })).summary).toContain('(0 from cache)')
+        expect((await runBuild({ name: 'Grace' }, { i18n })).summary).toContain('(1 from cache)')
+        const changedLocales = await runBuild({ name: 'Grace' }, { i18n: { ...i18n, locales: ['en', 'fr'] } })
+        expect(changedLocales.summary).toContain('(0 from cache)')
+        const changedSite = await runBuild({ name: 'Grace' }, { i18n: { ...i18n, locales: ['en', 'fr'] }, site: 'https://example.com' })
+        expect(changedSite.summary).toContain('(0 from cache)')
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('can disable the cache', async () => {
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+      await build({ 'index.html': page }, { cache: false }, undefined, logger)
+
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('(0 from cache)'))
+    })
+
+    it('rejects an invalid concurrency limit', () => {
+      expect(() => astrogonia({ concurrency: 0 })).toThrow('[astrogonia] concurrency must be a positive integer, got 0')
+    })
+
+    it('reports missing build output for a route', async () => {
+      await expect(build({ 'index.html': page }, {}, (dir) => new Map([
+        ['/about', [new URL('about/index.html', dir)]]
+      ]))).rejects.toThrow('[astrogonia] Expected build output about/index.html for route /about')
+    })
   })
 
   describe('remarkDirectives', () => {
@@ -79,4 +618,73 @@ describe('astrogonia', () => {
       expect(typeof plugin).toBe('function')
     })
   })
+
+  describe('config module', () => {
+    it('serializes state and globs templates from templatesDir', async () => {
+      const source = await generateConfigModule({
+        root: '/nonexistent',
+        state: { count: 1 },
+        dev: false,
+        templatesDir: 'src/layouts/',
+        serializeState: true
+      })
+
+      expect(source).toContain('export const options = {"state":{"count":1},"templatesDir":"src/layouts/","prefix":"g-","templatePages":false,"templateRoutes":[],"serializeState":true,"streaming":false,"stateSources":{}}')
+      expect(source).toContain('export const dev = false;')
+      expect(source).toContain('import.meta.glob("/src/layouts/**/*.html"')
+      expect(source).not.toContain('import "/nonexistent')
+      expect(source).toContain('export const getCollection = undefined;')
+    })
+
+    it('imports the directives entry from directivesDir and the modules of directiveGlobs', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      try {
+        await mkdir(join(root, 'lib/directives'), { recursive: true })
+        await mkdir(join(root, 'packages/ui'), { recursive: true })
+        await writeFile(join(root, 'lib/directives/index.ts'), '')
+        await writeFile(join(root, 'packages/ui/tabs.ts'), '')
+
+        const source = await generateConfigModule({
+          root,
+          dev: true,
+          templatesDir: 'src/templates',
+          directivesDir: 'lib/directives',
+          directiveGlobs: ['packages/ui/*.ts'],
+          prefix: 'x-',
+          serializeState: true
+        })
+
+        expect(source).toContain(`import ${JSON.stringify(join(root, 'lib/directives/index.ts'))};\nimport ${JSON.stringify(join(root, 'packages/ui/tabs.ts'))};`)
+        expect(source).toContain('"prefix":"x-"')
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+
+    it('inlines state files and imports collections for state sources', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+      try {
+        await mkdir(join(root, 'src/data'), { recursive: true })
+        await writeFile(join(root, 'src/data/site.yaml'), 'name: Docs\n')
+
+        const source = await generateConfigModule({
+          root,
+          dev: true,
+          templatesDir: 'src/templates',
+          serializeState: true,
+          stateSources: {
+            site: 'src/data/site.yaml',
+            products: { collection: 'products' },
+            stock: () => 3
+          }
+        })
+
+        expect(source).toContain('"stateSources":{"site":"src/data/site.yaml","products":{"collection":"products"}}')
+        expect(source).toContain('export const stateFiles = {"src/data/site.yaml":{"name":"Docs"}};')
+        expect(source).toContain(`export { getCollection } from 'astro:content';`)
+      } finally {
+        await rm(root, { recursive: true, force: true })
+      }
+    })
+  })
 })
@@ -6,13 +6,38 @@
 
 import type { AstroIntegration } from 'astro'
 import { readFile, writeFile } from 'node:fs/promises'
-import { join } from 'node:path'
-import { render, registerDirective, registerService, type DirectiveRegistry } from 'gonia/server'
-import { directives, createServerRegistry } from 'gonia'
+import { dirname, join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { performance } from 'node:perf_hooks'
+import { createServerRegistry, type TemplateRegistry } from 'gonia'
 import { bellagonia } from 'bellagonia'
+import remarkDirective from 'remark-directive'
+import { configModule, RUNTIME_KEY, type RuntimeOptions } from './config-module.js'
+import { hotReload } from './hot-reload.js'
+import { createRenderer, type PageContext, type Renderer } from './renderer.js'
+import { findHtmlFiles } from './output.js'
+import { createRenderCache, hashContent, hashTemplates, type RenderCache } from './cache.js'
+import { forEachLimit, formatBuildSummary, type PageTiming } from './build.js'
+import { loadPageState, matchParams, matchRoute, pathnameFromFile, type Loader, type LoaderContext, type LoaderRoute } from './loader.js'
+import { createDiagnostics, type Diagnostic, type DiagnosticSeverity } from './diagnostics.js'
 import { remarkDirectives, type RemarkDirectivesOptions } from './remark-directives.js'
+import { BUILTIN_PREFIX, DEFAULT_DIRECTIVES_DIR, directiveGlobs, discoverDirectives, findDirectiveModules, mayContainDirectives, validatePrefix } from './discovery.js'
+import { importDirectiveModules } from './directive-modules.js'
+import { islandsModule } from './island-markup.js'
+import { createStaticServices, type RequestServices } from './services.js'
+import { createI18nServices, localeFromPathname, readCatalogs, type AstroLocales, type Catalogs, type I18nOptions } from './catalogs.js'
+import { createDataStoreReader, DATA_KEY, loadStateSources, readStateFile, stateSourceFiles, type StateSource, type StateSources } from './state-sources.js'
+import { defineDirective, type AnyDirective, type DirectiveName, type Injectables, type RegisteredDirectives, type RegisteredState, type RegisteredTemplates, type TemplateName } from './authoring.js'
+import { directiveAttributes, findTemplateNames, generateTypes, stateSourceTypes, TYPES_FILENAME } from './typegen.js'
+import { CHECK_MANIFEST_FILENAME, writeCheckManifest } from './check.js'
+import { checkPageLayouts, findTemplateRoutes, type PageRoute } from './pages.js'
+import { createStyleLinks, insertStyles, STYLES_KEY, usedStyleSheets, type StyleSheets } from './styles.js'
+import { compileStyleSheets, writeStyleSheets, type VanillaExtractOptions } from './style-compiler.js'
 
 export { remarkDirectives, type RemarkDirectivesOptions }
+export type { Loader, LoaderContext, Diagnostic, DiagnosticSeverity, StateSource, StateSources, RequestServices, I18nOptions, VanillaExtractOptions }
+export { defineDirective }
+export type { AnyDirective, DirectiveName, Injectables, RegisteredDirectives, RegisteredState, RegisteredTemplates, TemplateName }
 
 // Re-export gonia APIs for convenience
 export {
@@ -66,24 +91,99 @@ export {
   directives,
 } from 'gonia'
 
-export interface AstrogoniaOptions {
+/**
+ * Integration options.
+ *
+ * @typeParam State - Shape of the page state, which `state` and `loader`
+ * each provide part of
+ */
+export interface AstrogoniaOptions<State extends object = Record<string, unknown>> {
   /**
    * Initial state for SSR.
    */
-  state?: Record<string, unknown>
+  state?: Partial<State>
+  /**
+   * Custom directives to register for SSR, such as those made with
+   * {@link defineDirective}, under the `prefix`.
+   */
+  directives?: Record<string, AnyDirective>
+  /**
+   * Attribute prefix of custom directives, such as `x-` for `x-chart`.
+   *
+   * @remarks
+   * For projects whose attributes would clash with another library. Gonia's
+   * builtins, `g-scope` and `g-bind:*` keep the `g-` prefix.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+  /**
+   * Directory of custom directives (relative to project root). Its
+   * `index.ts` registers them for the middleware and the build pass.
+   * @defaultValue 'src/directives'
+   */
+  directivesDir?: string
+  /**
+   * Glob patterns of custom directive sources (relative to project root),
+   * for directives outside `directivesDir`, such as in a monorepo package.
+   * Each module they match is imported for SSR and reloaded in dev.
+   * @defaultValue every `.ts` file under `directivesDir`
+   */
+  directiveGlobs?: string[]
+  /**
+   * Load state for each page render from its pathname and route params.
+   * Runs in the build pass for prerendered pages and in the dev middleware.
+   */
+  loader?: Loader<State>
+  /**
+   * Named state from JSON or YAML files, content collections or functions,
+   * exposed to every page as `$data.<name>`.
+   *
+   * @remarks
+   * File paths are relative to the project root. In dev, editing a state
+   * file re-renders the page, and function sources run on every request.
+   * Function sources can't be handed to on-demand routes in production.
+   *
+   * @example
+   * ```ts
+   * stateSources: {
+   *   site: 'src/data/site.yaml',
+   *   products: { collection: 'products' },
+   *   stock: () => fetchStock()
+   * }
+   * ```
+   */
+  stateSources?: StateSources
+  /**
+   * Translate `g-t` message keys with catalogs from `catalogsDir`, in the
+   * locale of each page's Astro route. `$i18n` and `$locale` are injected
+   * into server-rendered directives.
+   * @defaultValue false
+   */
+  i18n?: boolean | I18nOptions
   /**
-   * Custom directives to register for SSR.
+   * Compile vanilla-extract styles: the `entry` module and the `.css.ts`
+   * file next to each template and directive module. Class names are
+   * exposed as `$styles`, and each page links the CSS of the entry and of
+   * the templates and directives it uses.
+   *
+   * @remarks
+   * Compiling needs `@vanilla-extract/integration`, and class names in
+   * client directive modules need `@vanilla-extract/vite-plugin`. With
+   * `false`, neither the vite plugin nor bellagonia is added.
+   * @defaultValue true
    */
-  directives?: Record<string, unknown>
+  vanillaExtract?: boolean | VanillaExtractOptions
   /**
-   * Enable frontmatter directive declarations in markdown.
-   * When true, adds a remark plugin that reads `directive` from frontmatter.
+   * Enable directives in markdown.
+   * When true, adds remark plugins that read `directive` from frontmatter
+   * and compile inline directive syntax such as `:g-text{expr="name"}`.
    * @defaultValue true
    */
   frontmatterDirectives?: boolean
   /**
-   * Custom directive source mapping for frontmatter imports.
-   * Maps directive names to their module paths.
+   * Custom directive source mapping for markdown imports.
+   * Maps directive names to their module paths, on top of the directives
+   * discovered from `directiveGlobs`.
    */
   directiveSources?: Map<string, string>
   /**
@@ -95,135 +195,193 @@ export interface AstrogoniaOptions {
   /**
    * Enable Astro's JSX-style templating alongside Gonia.
    * When false, pages should use g-template for layouts.
+   *
+   * @remarks
+   * When false, a page can be a `.html` file or an `.astro` shell made of
+   * head elements and a single root element with `g-template`. The page
+   * becomes the document of that template, in the build pass and in the
+   * middleware alike. Pages that wrap their content in an Astro layout
+   * component (or set a markdown `layout`) and also take their layout
+   * from a template are reported as errors.
    * @defaultValue false
    */
   astroTemplating?: boolean
+  /**
+   * Render Gonia directives on demand for routes that are not prerendered
+   * (`output: 'server'` or pages with `prerender = false`).
+   * Prerendered routes are always rendered by the build pass instead.
+   * @defaultValue true
+   */
+  onDemand?: boolean
+  /**
+   * Glob patterns of HTML files to process after the build, relative to
+   * the build output directory.
+   * @defaultValue ['**\/*.html']
+   */
+  include?: string[]
+  /**
+   * Glob patterns of HTML files to leave untouched after the build,
+   * relative to the build output directory.
+   * @defaultValue []
+   */
+  exclude?: string[]
+  /**
+   * Write the merged SSR state (from `state`, `<script id="gonia-state">`
+   * and body `g-scope`) into each rendered page as one
+   * `<script id="gonia-state">` block.
+   * @defaultValue true
+   */
+  serializeState?: boolean
+  /**
+   * Inject a client entry into every page that hydrates Gonia against the
+   * serialized state.
+   *
+   * @remarks
+   * With `'islands'`, only elements marked with `g-client` are hydrated,
+   * each on its own according to its strategy (`load`, `idle`, `visible`
+   * or `media:<query>`), loading only the directives it uses. Pages
+   * without islands load no Gonia runtime.
+   * @defaultValue false
+   */
+  hydrate?: boolean | 'islands'
+  /**
+   * Render HTML responses in the middleware as they stream, instead of
+   * reading each response in full first.
+   *
+   * @remarks
+   * The head is sent as soon as it arrives and Gonia roots in the body are
+   * rendered one at a time, so pages keep Astro's time-to-first-byte.
+   * Pages with directives in the head or on `<html>` are still rendered in
+   * full, and a body `g-template` holds back the body.
+   * @defaultValue false
+   */
+  streaming?: boolean
+  /**
+   * Fail `astro build` when any page hits an SSR error, such as invalid
+   * state JSON, a missing template or a directive that throws.
+   * @defaultValue false
+   */
+  strict?: boolean
+  /**
+   * Maximum number of pages the build pass reads, renders and writes at
+   * once.
+   * @defaultValue 16
+   */
+  concurrency?: number
+  /**
+   * Reuse pages rendered by earlier builds when their HTML, state,
+   * templates and options are unchanged. Entries are kept under Astro's
+   * `cacheDir`.
+   *
+   * @remarks
+   * Code that directives import is not part of the cache key; disable the
+   * cache or clear `cacheDir` after changing it.
+   * @defaultValue true
+   */
+  cache?: boolean
 }
 
-function createDefaultRegistry(): DirectiveRegistry {
-  const registry: DirectiveRegistry = new Map()
-
-  const builtins: Array<[string, unknown]> = [
-    ['text', directives.text],
-    ['show', directives.show],
-    ['class', directives.cclass],
-    ['for', directives.cfor],
-    ['if', directives.cif],
-    ['html', directives.html],
-    ['model', directives.model],
-    ['on', directives.on],
-    ['template', directives.template],
-    ['slot', directives.slot],
-  ]
-
-  for (const [name, directive] of builtins) {
-    registerDirective(registry, name, directive as never)
-  }
-
-  return registry
+interface ProcessFileOptions {
+  renderer: Renderer
+  loadPage: () => Promise<PageContext | undefined>
+  /**
+   * Markup linking the styles a page uses.
+   */
+  styles?: (html: string) => Promise<string>
+  cache?: RenderCache
+  /**
+   * Whether the render of a page reported errors, which keeps it out of
+   * the cache.
+   */
+  failed: (page: PageContext) => boolean
 }
 
-async function processHtmlString(
-  html: string,
-  options: AstrogoniaOptions,
-  registry: DirectiveRegistry,
-  rootDir: string
-): Promise<string> {
-  const stateMatch = html.match(/<script id="gonia-state" type="application\/json">([\s\S]*?)<\/script>/)
-  let state: Record<string, unknown> = options.state ?? {}
-
-  if (stateMatch) {
-    try {
-      state = { ...state, ...JSON.parse(stateMatch[1]) }
-    } catch {
-      // Invalid JSON, use default state
-    }
+/**
+ * Render one page of the build output in place.
+ *
+ * @returns Whether the output came from the cache
+ */
+async function processHtmlFile(filePath: string, options: ProcessFileOptions): Promise<boolean> {
+  let html: string
+  try {
+    html = await readFile(filePath, 'utf-8')
+  } catch (err) {
+    throw new Error(`[astrogonia] Could not read build output ${filePath}`, { cause: err })
   }
 
-  // Check if this is a full HTML document
-  const isFullDocument = /^\s*<!DOCTYPE|^\s*<html/i.test(html)
-
-  if (isFullDocument) {
-    // Extract body content, process it, then reconstruct
-    const bodyMatch = html.match(/<body([^>]*)>([\s\S]*)<\/body>/i)
-    if (bodyMatch) {
-      const bodyAttrs = bodyMatch[1] // includes leading space if attrs exist
-      const bodyContent = bodyMatch[2]
-
-      // Extract g-scope from body attributes and merge into state
-      // Decode HTML entities to get the actual JSON
-      // Match double-quoted or single-quoted attribute values properly
-      const scopeMatch = bodyAttrs.match(/g-scope="([^"]*)"|g-scope='([^']*)'/)
-      const scopeValue = scopeMatch?.[1] ?? scopeMatch?.[2]
-      if (scopeValue) {
-        try {
-          const scopeJson = scopeValue
-            .replace(/&quot;/g, '"')
-            .replace(/&#34;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&apos;/g, "'")
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&amp;/g, '&')
-          const scopeData = JSON.parse(scopeJson)
-          state = { ...state, ...scopeData }
-        } catch {
-          // Invalid JSON in g-scope, continue with existing state
-        }
-      }
+  // Pages without directives are left as written, apart from their
+  // styles, as in the middleware
+  if (!mayContainDirectives(html, options.renderer.prefix)) {
+    const styled = insertStyles(html, await options.styles?.(html) ?? '')
+    if (styled !== html) {
+      await writeFile(filePath, styled)
+    }
+    return false
+  }
 
-      // Handle g-template on body by loading and applying template
-      const templateMatch = bodyAttrs.match(/g-template="([^"]*)"|g-template='([^']*)'/)
-      const templateName = templateMatch?.[1] ?? templateMatch?.[2]
+  // A failed loader has been reported; leave the page as Astro built it
+  const page = await options.loadPage()
+  if (!page) {
+    return false
+  }
 
-      let contentToProcess = bodyContent
-      if (templateName) {
-        try {
-          const templatePath = join(rootDir, options.templatesDir ?? 'src/templates', `${templateName}.html`)
-          const templateHtml = await readFile(templatePath, 'utf-8')
-          // Replace <slot></slot> with body content
-          contentToProcess = templateHtml.replace(/<slot><\/slot>|<slot\s*\/>/, bodyContent)
-        } catch {
-          // Template not found, use body content as-is
-        }
-      }
+  const cached = await options.cache?.get(html, page)
+  const rendered = cached ?? insertStyles(
+    await options.renderer.render(html, page),
+    await options.styles?.(html) ?? ''
+  )
 
-      // Process the content (with template applied)
-      // This avoids HTML entity encoding issues with g-scope values
-      const renderedContent = await render(contentToProcess, state, registry)
+  if (cached === undefined && !options.failed(page)) {
+    await options.cache?.set(html, page, rendered)
+  }
 
-      return html.replace(
-        /<body([^>]*)>([\s\S]*)<\/body>/i,
-        `<body${bodyAttrs}>${renderedContent}</body>`
-      )
-    }
-    return html
+  if (rendered !== html) {
+    await writeFile(filePath, rendered)
   }
 
-  return render(html, state, registry)
+  return cached !== undefined
 }
 
-async function processHtmlFile(
-  filePath: string,
+/**
+ * Hash the render inputs shared by every page of a build.
+ */
+async function buildFingerprint(
   options: AstrogoniaOptions,
-  registry: DirectiveRegistry,
-  rootDir: string
-): Promise<void> {
-  const html = await readFile(filePath, 'utf-8')
-  const rendered = await processHtmlString(html, options, registry, rootDir)
-
-  if (rendered !== html) {
-    await writeFile(filePath, rendered)
+  initialState: Record<string, unknown>,
+  catalogs: Catalogs,
+  styles: Record<string, unknown>,
+  routing: { site?: string, defaultLocale: string, locales: AstroLocales },
+  templatesPath: string
+): Promise<string | undefined> {
+  const directives = Object.entries(options.directives ?? {})
+    .map(([name, directive]) => `${name}:${String(directive)}`)
+
+  let state: string
+  try {
+    state = JSON.stringify(initialState)
+  } catch {
+    return undefined
   }
+
+  return hashContent(
+    state,
+    JSON.stringify(catalogs),
+    JSON.stringify(styles),
+    JSON.stringify(routing),
+    String(options.serializeState ?? true),
+    String(options.astroTemplating ?? false),
+    options.prefix ?? BUILTIN_PREFIX,
+    ...directives,
+    await hashTemplates(templatesPath)
+  )
 }
 
-function setupTemplateRegistry(rootDir: string, templatesDir: string): void {
+function createFileTemplateRegistry(rootDir: string, templatesDir: string): TemplateRegistry {
   const templatesPath = join(rootDir, templatesDir)
-  const registry = createServerRegistry(
+  return createServerRegistry(
     (path) => readFile(path, 'utf-8'),
     templatesPath + '/'
   )
-  registerService('$templates', registry)
 }
 
 /**
@@ -240,64 +398,195 @@ function setupTemplateRegistry(rootDir: string, templatesDir: string): void {
  * })
  * ```
  */
-export default function astrogonia(options: AstrogoniaOptions = {}): AstroIntegration {
-  const registry = createDefaultRegistry()
+export default function astrogonia<State extends object = Record<string, unknown>>(
+  typedOptions: AstrogoniaOptions<State> = {}
+): AstroIntegration {
+  // State is only typed for the caller
+  const options = typedOptions as AstrogoniaOptions
   const enableFrontmatter = options.frontmatterDirectives ?? true
   const templatesDir = options.templatesDir ?? 'src/templates'
+  const onDemand = options.onDemand ?? true
+  const serializeState = options.serializeState ?? true
+  const concurrency = options.concurrency ?? 16
+  const prefix = validatePrefix(options.prefix ?? BUILTIN_PREFIX)
+  const directivesDir = options.directivesDir ?? DEFAULT_DIRECTIVES_DIR
+  const globs = options.directiveGlobs ?? directiveGlobs(directivesDir)
+  const templatePages = !(options.astroTemplating ?? false)
+  const i18n = options.i18n === true ? {} : options.i18n || undefined
+  const catalogsDir = i18n && (i18n.catalogsDir ?? 'src/i18n')
+  const vanillaExtract = options.vanillaExtract === false
+    ? undefined
+    : options.vanillaExtract === true ? {} : options.vanillaExtract ?? {}
+  const stylesEntry = vanillaExtract && (vanillaExtract.entry ?? 'src/styles/index.ts')
   let rootDir = ''
-
-  if (options.directives) {
-    for (const [name, directive] of Object.entries(options.directives)) {
-      registerDirective(registry, name, directive as never)
-    }
+  let outDir = 'dist'
+  let base = '/'
+  let assetsDir = '_astro'
+  let cacheDir = ''
+  let dataStoreFile = ''
+  let site: string | undefined
+  let defaultLocale = 'en'
+  let locales: AstroLocales = []
+  let routes: (LoaderRoute & PageRoute)[] = []
+  // Whether the build uses options that can't reach on-demand routes
+  let runtimeOnly = false
+  let directiveSources = new Map<string, string>()
+  const diagnostics = createDiagnostics()
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`[astrogonia] concurrency must be a positive integer, got ${concurrency}`)
   }
 
   return {
     name: 'astrogonia',
     hooks: {
-      'astro:config:setup': async ({ config, updateConfig, addMiddleware, command }) => {
+      'astro:config:setup': async ({ config, updateConfig, addMiddleware, injectScript, command, logger }) => {
         rootDir = config.root.pathname
-
-        // Add SSR middleware for dev mode only
-        if (command === 'dev') {
+        if (config.outDir) {
+          outDir = relative(fileURLToPath(config.root), fileURLToPath(config.outDir))
+        }
+        const pagesDir = config.srcDir
+          ? relative(fileURLToPath(config.root), fileURLToPath(new URL('pages/', config.srcDir)))
+          : 'src/pages'
+        site = config.site
+        base = config.base ?? '/'
+        assetsDir = config.build?.assets ?? '_astro'
+        defaultLocale = i18n?.defaultLocale ?? config.i18n?.defaultLocale ?? 'en'
+        locales = config.i18n?.locales ?? []
+        const astroCacheDir = config.cacheDir ?? new URL('node_modules/.astro/', config.root)
+        cacheDir = fileURLToPath(new URL('astrogonia/', astroCacheDir))
+        dataStoreFile = fileURLToPath(new URL('data-store.json', astroCacheDir))
+        diagnostics.setLogger(logger)
+        // Errors from here on count towards strict mode in a build
+        diagnostics.collect(command === 'build')
+
+        // Functions can't be serialized into the config module, so the
+        // dev middleware picks them up from the same process
+        const runtime: RuntimeOptions = {
+          directives: options.directives,
+          loader: options.loader,
+          report: diagnostics.report,
+          stateSources: options.stateSources
+        }
+        const handoff = globalThis as Record<symbol, unknown>
+        handoff[RUNTIME_KEY] = runtime
+
+        // The production server runs in another process, where none of these
+        // exist; warned about once routes show whether any render on demand
+        const functionSources = Object.values(options.stateSources ?? {}).some(source => typeof source === 'function')
+        runtimeOnly = command === 'build' && onDemand && (Object.keys(options.directives ?? {}).length > 0 || !!options.loader || functionSources)
+
+        // Add SSR middleware for dev mode and on-demand routes in production.
+        // The middleware skips prerendered routes outside of dev, leaving
+        // those to the astro:build:done pass.
+        if (command === 'dev' || (command === 'build' && onDemand)) {
           addMiddleware({
             entrypoint: 'astrogonia/middleware',
             order: 'post'
           })
         }
 
+        // Hydrate against the state serialized by the renderer
+        if (options.hydrate === 'islands') {
+          injectScript('page', `import { hydrateIslands } from 'astrogonia/islands'; import { loaders } from 'virtual:astrogonia/islands'; hydrateIslands(loaders)`)
+        } else if (options.hydrate) {
+          injectScript('page', `import { bootstrap } from 'astrogonia/client'; bootstrap()`)
+        }
+
+        // Pages take their layout from templates alone
+        if (templatePages) {
+          await checkPageLayouts(rootDir, pagesDir, diagnostics.report)
+        }
+
+        const discovered = await discoverDirectives(rootDir, globs, diagnostics.report, prefix)
+        directiveSources = new Map([...discovered, ...options.directiveSources ?? []])
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const vitePlugins: any[] = []
+        const vitePlugins: any[] = [diagnostics.vitePlugin()]
+
+        // Serve directive imports to the islands loader
+        vitePlugins.push(islandsModule(directiveSources))
+
+        // Serve integration options to the middleware
+        vitePlugins.push(configModule({
+          root: rootDir,
+          dev: command === 'dev',
+          state: options.state,
+          templatesDir,
+          directivesDir,
+          directiveGlobs: globs,
+          prefix,
+          templatePages,
+          pageRoutes: () => routes,
+          serializeState,
+          streaming: options.streaming,
+          stateSources: options.stateSources,
+          i18n: catalogsDir === undefined ? undefined : { catalogsDir, defaultLocale },
+          styles: stylesEntry === undefined ? undefined : {
+            entry: stylesEntry,
+            styles: vanillaExtract?.styles,
+            directiveSources,
+            cacheDir
+          },
+          report: diagnostics.report
+        }))
+
+        // Re-render in dev when templates, custom directives or state files change
+        vitePlugins.push(hotReload({
+          root: rootDir,
+          templatesDir,
+          directivesDir,
+          directiveGlobs: globs,
+          stateFiles: stateSourceFiles(options.stateSources),
+          catalogsDir,
+          stylesDir: stylesEntry && dirname(stylesEntry),
+          pagesDir: templatePages ? pagesDir : undefined
+        }))
 
         // Add vanilla-extract vite plugin for .css.ts compilation
-        try {
-          const ve = await import('@vanilla-extract/vite-plugin' as string) as { vanillaExtractPlugin: () => unknown }
-          vitePlugins.push(ve.vanillaExtractPlugin())
-        } catch {
-          // vanilla-extract not installed, skip
+        if (vanillaExtract) {
+          try {
+            const ve = await import('@vanilla-extract/vite-plugin' as string) as { vanillaExtractPlugin: () => unknown }
+            vitePlugins.push(ve.vanillaExtractPlugin())
+          } catch {
+            // vanilla-extract not installed, skip
+          }
         }
 
         // Add gonia vite plugin
         try {
-          const goniaVite = await import('gonia/vite' as string) as { gonia: (opts?: { directiveSources?: string[] }) => unknown }
+          const goniaVite = await import('gonia/vite' as string) as {
+            gonia: (opts?: { directiveSources?: string[], directiveAttributePrefixes?: string[] }) => unknown
+          }
           vitePlugins.push(goniaVite.gonia({
-            directiveSources: ['src/directives/**/*.ts']
+            directiveSources: globs,
+            directiveAttributePrefixes: [...new Set([BUILTIN_PREFIX, prefix])]
           }))
-        } catch {
-          // gonia/vite not available, skip
+        } catch (err) {
+          diagnostics.report({
+            severity: 'warning',
+            code: 'vite-plugin',
+            message: 'Could not load gonia/vite, directives will not be auto-imported on the client',
+            cause: err
+          })
         }
 
         // bellagonia: auto-inject $styles from sibling .css.ts files
-        vitePlugins.push(bellagonia({
-          directiveSources: ['src/directives/**/*.ts']
-        }))
-
+        if (vanillaExtract) {
+          vitePlugins.push(bellagonia({
+            directiveSources: globs
+          }))
+        }
 
         const updates: Parameters<typeof updateConfig>[0] = {}
 
         if (vitePlugins.length > 0) {
           updates.vite = {
             plugins: vitePlugins,
+            // Bundle the middleware through Vite so import.meta.env is defined
+            ssr: {
+              noExternal: ['astrogonia']
+            },
             build: {
               rollupOptions: {
                 external: ['bufferutil', 'utf-8-validate']
@@ -309,7 +598,8 @@ export default function astrogonia(options: AstrogoniaOptions = {}): AstroIntegr
         if (enableFrontmatter) {
           updates.markdown = {
             remarkPlugins: [
-              [remarkDirectives, { directiveSources: options.directiveSources }]
+              remarkDirective,
+              [remarkDirectives, { directiveSources, prefix, directivesDir, report: diagnostics.report }]
             ]
           }
         }
@@ -317,24 +607,172 @@ export default function astrogonia(options: AstrogoniaOptions = {}): AstroIntegr
         updateConfig(updates)
       },
 
-      'astro:build:done': async ({ dir, pages }) => {
-        // Set up template registry for g-template directive
-        setupTemplateRegistry(rootDir, templatesDir)
+      'astro:config:done': async ({ injectTypes }) => {
+        const directives = directiveAttributes(Object.keys(options.directives ?? {}), directiveSources, prefix)
+
+        // Declare the project's state, templates and directives for
+        // astro check and editors
+        const typesFile = injectTypes({
+          filename: TYPES_FILENAME,
+          content: generateTypes({
+            state: options.state ?? {},
+            data: await stateSourceTypes(rootDir, options.stateSources),
+            templates: await findTemplateNames(rootDir, templatesDir),
+            directives
+          })
+        })
+
+        // Hand the same to astrogonia check
+        await writeCheckManifest(fileURLToPath(new URL(CHECK_MANIFEST_FILENAME, typesFile)), {
+          outDir,
+          templatesDir,
+          directives,
+          prefix,
+          state: options.loader
+            ? null
+            : [...Object.keys(options.state ?? {}), ...options.stateSources ? [DATA_KEY] : []]
+        })
+      },
+
+      'astro:routes:resolved': ({ routes: resolved }) => {
+        const onDemandRoutes = resolved.filter(route => !route.isPrerendered && route.origin !== 'internal' && (route.type === 'page' || route.type === 'endpoint'))
+        if (runtimeOnly && onDemandRoutes.length > 0) {
+          runtimeOnly = false
+          diagnostics.report({
+            severity: 'warning',
+            code: 'runtime-options',
+            message: `The directives and loader options and function state sources only reach prerendered pages; on-demand routes such as ${onDemandRoutes[0].pattern} need directives registered under ${directivesDir}`
+          })
+        }
+
+        // Used to recover route params for prerendered pages, and to tell
+        // template pages from other responses
+        routes = resolved
+          .filter(route => route.type === 'page')
+          .map(route => ({
+            patternRegex: route.patternRegex,
+            params: route.params,
+            pattern: route.pattern,
+            entrypoint: route.entrypoint
+          }))
+      },
 
-        // Note: vanilla-extract styles are passed via g-state from pages,
-        // not imported here (vanilla-extract requires vite plugin context)
+      'astro:build:done': async ({ dir, assets, logger }) => {
+        diagnostics.setLogger(logger)
+        const started = performance.now()
+
+        // State sources are loaded once and shared by every page
+        const state = { ...options.state }
+        if (options.stateSources && Object.keys(options.stateSources).length > 0) {
+          state[DATA_KEY] = await loadStateSources(options.stateSources, {
+            readFile: path => readStateFile(rootDir, path),
+            getCollection: createDataStoreReader(dataStoreFile),
+            report: diagnostics.report
+          })
+        }
 
-        // Process all HTML files after they've been written to disk
-        // pages[].pathname is like '' (root) or 'hello-world/' (trailing slash)
-        const htmlFiles = pages.map(p => {
-          const pathname = p.pathname || ''
-          const path = pathname === '' ? 'index.html' : `${pathname}index.html`
-          return new URL(path, dir)
+        const catalogs = catalogsDir === undefined ? {} : await readCatalogs(rootDir, catalogsDir, diagnostics.report)
+
+        const dirPath = fileURLToPath(dir)
+
+        // Styles are compiled outside of Vite and written next to Astro's
+        // assets, so each page can link only the sheets it uses
+        let sheets: StyleSheets | undefined
+        let hrefs: Record<string, string> = {}
+        if (stylesEntry !== undefined) {
+          sheets = await compileStyleSheets(rootDir, {
+            entry: stylesEntry,
+            styles: vanillaExtract?.styles,
+            templatesDir,
+            directiveSources,
+            cacheDir,
+            report: diagnostics.report
+          })
+          hrefs = await writeStyleSheets(sheets, dirPath, join(assetsDir, 'astrogonia'), base)
+          if (Object.keys(sheets.exports).length > 0) {
+            state[STYLES_KEY] = sheets.exports
+          }
+        }
+
+        // The directives the middleware imports through the config module
+        await importDirectiveModules(rootDir, await findDirectiveModules(rootDir, directivesDir, globs), diagnostics.report)
+
+        const templates = createFileTemplateRegistry(rootDir, templatesDir)
+        const renderer = createRenderer({
+          state,
+          directives: options.directives,
+          prefix,
+          templates,
+          templatePages,
+          serializeState,
+          report: diagnostics.report
+        })
+
+        // Process all HTML files after they've been written to disk.
+        // Astro only writes prerendered pages here; on-demand routes are
+        // rendered by the middleware at request time.
+        const htmlFiles = await findHtmlFiles(dir, assets, {
+          include: options.include ?? ['**/*.html'],
+          exclude: options.exclude ?? []
         })
 
-        await Promise.all(
-          htmlFiles.map(url => processHtmlFile(url.pathname, options, registry, rootDir))
-        )
+        // Only pages written as template pages get a template document
+        const templateRoutes = templatePages ? await findTemplateRoutes(rootDir, routes) : []
+        const isTemplatePage = (pathname: string) => {
+          const route = matchRoute(pathname, routes)?.route
+          return route !== undefined && templateRoutes.includes(route.pattern)
+        }
+
+        const loaderContext = (filePath: string): LoaderContext => {
+          const pathname = pathnameFromFile(relative(dirPath, filePath))
+          return { pathname, params: matchParams(pathname, routes) }
+        }
+
+        const fingerprint = options.cache === false
+          ? undefined
+          : await buildFingerprint(options, state, catalogs, { hrefs, directives: sheets?.directives }, { site, defaultLocale, locales }, join(rootDir, templatesDir))
+        const cache = fingerprint ? createRenderCache(cacheDir, fingerprint) : undefined
+
+        const timings: PageTiming[] = []
+        await forEachLimit(htmlFiles, concurrency, async (filePath) => {
+          const pageStarted = performance.now()
+          const source = relative(dirPath, filePath)
+
+          const cached = await processHtmlFile(filePath, {
+            renderer,
+            cache,
+            styles: sheets && (async (html) => {
+              const used = await usedStyleSheets(html, sheets, name => templates.get(name))
+              return createStyleLinks(used.map(name => hrefs[name]))
+            }),
+            loadPage: async () => {
+              const context = loaderContext(filePath)
+              const state = await loadPageState(options.loader, context, diagnostics.report)
+              return state && {
+                state,
+                source,
+                templatePage: isTemplatePage(context.pathname),
+                services: catalogsDir === undefined
+                  ? createStaticServices(context.pathname, context.params, site)
+                  : {
+                      ...createStaticServices(context.pathname, context.params, site),
+                      ...createI18nServices(catalogs, localeFromPathname(context.pathname, locales, defaultLocale), defaultLocale)
+                    }
+              }
+            },
+            failed: (page) => diagnostics.errors.some(error => error.file === page.source)
+          })
+
+          timings.push({ file: source, duration: performance.now() - pageStarted, cached })
+        })
+
+        await cache?.prune()
+        logger?.info(formatBuildSummary(timings, performance.now() - started))
+
+        if (options.strict && diagnostics.errors.length > 0) {
+          const count = diagnostics.errors.length
+          throw new Error(`[astrogonia] ${count} SSR error${count === 1 ? '' : 's'} in strict mode, see the log above`)
+        }
       }
     }
   }
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+import { generateIslandsModule, markIslands } from './island-markup.js'
+import { createRenderer } from './renderer.js'
+import { createMemoryRegistry } from 'gonia'
+
+describe('island markup', () => {
+  const state = { user: { name: 'Ada' }, items: ['a'], secret: 'hidden' }
+
+  it('annotates roots with the directives and state they use', () => {
+    const html = markIslands('<p g-text="secret"></p><div g-client="idle"><span g-text="user.name"></span><li g-for="item in items" g-text="item"></li></div>', state, vi.fn())
+
+    expect(html).toBe(
+      '<p g-text="secret"></p>'
+      + `<div g-client="idle" data-g-directives="g-text,g-for" data-g-state="{&quot;user&quot;:{&quot;name&quot;:&quot;Ada&quot;},&quot;items&quot;:[&quot;a&quot;]}">`
+      + '<span g-text="user.name"></span><li g-for="item in items" g-text="item"></li></div>'
+    )
+  })
+
+  it('leaves markup without islands untouched', () => {
+    const html = '<p g-text="secret"></p>'
+
+    expect(markIslands(html, state, vi.fn())).toBe(html)
+  })
+
+  it('hydrates nested islands with their outer island', () => {
+    const html = markIslands('<div g-client="load"><section g-client="visible"><b g-show="user"></b></section></div>', state, vi.fn())
+
+    expect(html).toContain('<div g-client="load" data-g-directives="g-show"')
+    expect(html).toContain('<section g-client="visible"><b')
+  })
+
+  it('reports unknown strategies', () => {
+    const report = vi.fn()
+    markIslands('<div g-client="hover"></div>', state, report, '/about')
+
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      severity: 'warning',
+      code: 'island-strategy',
+      file: '/about',
+      attribute: 'g-client="hover"'
+    }))
+  })
+
+  it('keeps the annotations through rendering', async () => {
+    const renderer = createRenderer({ templates: createMemoryRegistry({}), state, serializeState: false })
+    const html = await renderer.render('<!DOCTYPE html><html><body><div g-client="media:(max-width: 40em)"><span g-text="user.name"></span></div></body></html>')
+
+    expect(html).toContain('<div g-client="media:(max-width: 40em)" data-g-directives="g-text" data-g-state="{&quot;user&quot;:{&quot;name&quot;:&quot;Ada&quot;}}"><span g-text="user.name">Ada</span></div>')
+  })
+
+  it('maps builtin and discovered directives to imports', () => {
+    const source = generateIslandsModule(new Map([['g-chart', '/src/directives/chart.ts']]))
+
+    expect(source).toContain(`"g-text": () => import("gonia/directives").then(m => m.text),`)
+    expect(source).toContain(`"g-chart": () => import("/src/directives/chart.ts"),`)
+  })
+})
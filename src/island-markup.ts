@@ -0,0 +1,159 @@
+/**
+ * Server-side preparation of Gonia islands.
+ *
+ * @packageDocumentation
+ */
+
+import { Window, type Element } from 'happy-dom'
+import { findRoots } from 'gonia'
+import type { Plugin } from 'vite'
+import type { DiagnosticReporter } from './diagnostics.js'
+import { BUILTIN_DIRECTIVES } from './remark-directives.js'
+import { BUILTIN_PREFIX, isDirectiveName } from './discovery.js'
+import { ISLAND_ATTR, ISLAND_DIRECTIVES_ATTR, ISLAND_STATE_ATTR, parseStrategy } from './islands.js'
+
+/**
+ * Attributes that look like directives but need no directive module.
+ */
+const NON_DIRECTIVE_ATTRS = new Set([ISLAND_ATTR, 'g-scope'])
+
+export const ISLANDS_MODULE_ID = 'virtual:astrogonia/islands'
+
+const RESOLVED_ISLANDS_MODULE_ID = '\0' + ISLANDS_MODULE_ID
+
+/**
+ * Collect the directives and state keys used in an island.
+ */
+function collectUsage(root: Element, prefix: string): { directives: string[], identifiers: Set<string> } {
+  const directives = new Set<string>()
+  const identifiers = new Set<string>()
+
+  for (const el of [root, ...Array.from(root.querySelectorAll('*'))]) {
+    for (const attr of Array.from(el.attributes)) {
+      if (!isDirectiveName(attr.name, prefix) || attr.name === ISLAND_ATTR) {
+        continue
+      }
+
+      // g-bind:class is handled by the runtime itself
+      const name = attr.name.split(':')[0]
+      if (!NON_DIRECTIVE_ATTRS.has(name) && name !== 'g-bind') {
+        directives.add(name)
+      }
+
+      try {
+        for (const identifier of findRoots(attr.value ?? '')) {
+          identifiers.add(identifier)
+        }
+      } catch {
+        // Not an expression, such as a template name
+      }
+    }
+  }
+
+  return { directives: [...directives], identifiers }
+}
+
+/**
+ * Annotate the `g-client` roots in some markup with the directives they
+ * use and the part of the state they read.
+ *
+ * @remarks
+ * Runs before rendering, while directive attributes are all still in
+ * place. The client loader reads the annotations to import only those
+ * directives and hydrate each island against its own state.
+ */
+export function markIslands(
+  html: string,
+  state: Record<string, unknown>,
+  report: DiagnosticReporter,
+  source?: string,
+  prefix = BUILTIN_PREFIX
+): string {
+  if (!html.includes(ISLAND_ATTR)) {
+    return html
+  }
+
+  const window = new Window()
+  try {
+    const container = window.document.createElement('div')
+    container.innerHTML = html
+
+    for (const root of Array.from(container.querySelectorAll(`[${ISLAND_ATTR}]`))) {
+      if (root.parentElement?.closest(`[${ISLAND_ATTR}]`)) {
+        continue
+      }
+
+      const strategy = root.getAttribute(ISLAND_ATTR)
+      if (!parseStrategy(strategy)) {
+        report({
+          severity: 'warning',
+          code: 'island-strategy',
+          message: `Unknown island strategy "${strategy}", expected load, idle, visible or media:<query>; hydrating on load`,
+          file: source,
+          directive: ISLAND_ATTR,
+          attribute: `${ISLAND_ATTR}="${strategy}"`
+        })
+      }
+
+      const { directives, identifiers } = collectUsage(root, prefix)
+      const islandState = Object.fromEntries(
+        Object.entries(state).filter(([key]) => identifiers.has(key))
+      )
+
+      root.setAttribute(ISLAND_DIRECTIVES_ATTR, directives.join(','))
+      try {
+        root.setAttribute(ISLAND_STATE_ATTR, JSON.stringify(islandState))
+      } catch (err) {
+        report({
+          severity: 'error',
+          code: 'island-state',
+          message: 'Island state is not serializable, hydrating it without state',
+          file: source,
+          directive: ISLAND_ATTR,
+          cause: err
+        })
+      }
+    }
+
+    return container.innerHTML
+  } finally {
+    window.close()
+  }
+}
+
+/**
+ * Generate the source of the virtual islands module, which maps directive
+ * names to imports of their modules.
+ */
+export function generateIslandsModule(directiveSources: Map<string, string>): string {
+  const entries: string[] = []
+
+  for (const [name, { exportName, module }] of Object.entries(BUILTIN_DIRECTIVES)) {
+    entries.push(`  ${JSON.stringify(name)}: () => import(${JSON.stringify(module)}).then(m => m.${exportName}),`)
+  }
+
+  for (const [name, module] of directiveSources) {
+    entries.push(`  ${JSON.stringify(name)}: () => import(${JSON.stringify(module)}),`)
+  }
+
+  return `export const loaders = {\n${entries.join('\n')}\n};`
+}
+
+/**
+ * Vite plugin that serves the virtual islands module.
+ */
+export function islandsModule(directiveSources: Map<string, string>): Plugin {
+  return {
+    name: 'astrogonia:islands',
+    resolveId(id) {
+      if (id === ISLANDS_MODULE_ID) {
+        return RESOLVED_ISLANDS_MODULE_ID
+      }
+    },
+    load(id) {
+      if (id === RESOLVED_ISLANDS_MODULE_ID) {
+        return generateIslandsModule(directiveSources)
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { hydrateIslands, parseStrategy } from './islands.js'
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 10))
+
+function island(strategy: string, state = '{"name":"Ada"}') {
+  document.body.innerHTML = `<p id="static" g-text="name">static</p><div id="island" g-client="${strategy}" data-g-directives="g-text" data-g-state='${state}'><span g-text="name">Ada</span></div>`
+  return document.getElementById('island')!
+}
+
+describe('islands', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    document.body.innerHTML = ''
+  })
+
+  it('parses strategies', () => {
+    expect(parseStrategy('load')).toEqual({ type: 'load' })
+    expect(parseStrategy('')).toEqual({ type: 'load' })
+    expect(parseStrategy('visible')).toEqual({ type: 'visible' })
+    expect(parseStrategy('media:(max-width: 40em)')).toEqual({ type: 'media', query: '(max-width: 40em)' })
+    expect(parseStrategy('media:')).toBeUndefined()
+    expect(parseStrategy('hover')).toBeUndefined()
+  })
+
+  it('loads the directives an island uses and hydrates it on load', async () => {
+    const el = island('load')
+    const loaders = { 'g-text': vi.fn(() => import('gonia/directives')), 'g-for': vi.fn(async () => undefined) }
+
+    hydrateIslands(loaders)
+    await flush()
+
+    expect(loaders['g-text']).toHaveBeenCalledOnce()
+    expect(loaders['g-for']).not.toHaveBeenCalled()
+    await vi.waitFor(() => expect(el.hasAttribute('data-g-processed')).toBe(true))
+    expect(document.getElementById('static')!.hasAttribute('data-g-processed')).toBe(false)
+  })
+
+  it('waits for visible islands to intersect', async () => {
+    let notify: (entries: { isIntersecting: boolean }[]) => void = () => {}
+    const disconnect = vi.fn()
+    vi.stubGlobal('IntersectionObserver', class {
+      constructor(callback: typeof notify) {
+        notify = callback
+      }
+      observe() {}
+      disconnect = disconnect
+    })
+    const loaders = { 'g-text': vi.fn(async () => undefined) }
+    island('visible')
+
+    hydrateIslands(loaders)
+    await flush()
+    expect(loaders['g-text']).not.toHaveBeenCalled()
+
+    notify([{ isIntersecting: true }])
+    await flush()
+    expect(loaders['g-text']).toHaveBeenCalledOnce()
+    expect(disconnect).toHaveBeenCalled()
+  })
+
+  it('waits for media queries to match', async () => {
+    const listeners: (() => void)[] = []
+    const media = { matches: false, addEventListener: (_: string, fn: () => void) => listeners.push(fn), removeEventListener: vi.fn() }
+    const matchMedia = vi.fn(() => media)
+    vi.stubGlobal('matchMedia', matchMedia)
+    const loaders = { 'g-text': vi.fn(async () => undefined) }
+    island('media:(max-width: 40em)')
+
+    hydrateIslands(loaders)
+    await flush()
+    expect(matchMedia).toHaveBeenCalledWith('(max-width: 40em)')
+    expect(loaders['g-text']).not.toHaveBeenCalled()
+
+    media.matches = true
+    listeners.forEach(listener => listener())
+    await flush()
+    expect(loaders['g-text']).toHaveBeenCalledOnce()
+  })
+
+  it('hydrates nested islands once, with their outer island', async () => {
+    document.body.innerHTML = '<div g-client="load" data-g-directives="g-text"><div g-client="load" data-g-directives="g-text"></div></div>'
+    const loaders = { 'g-text': vi.fn(async () => undefined) }
+
+    hydrateIslands(loaders)
+    await flush()
+
+    expect(loaders['g-text']).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Client loader that hydrates each Gonia island on its own.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Attribute marking an island root and its loading strategy.
+ */
+export const ISLAND_ATTR = 'g-client'
+
+/**
+ * Attribute listing the directives used inside an island.
+ */
+export const ISLAND_DIRECTIVES_ATTR = 'data-g-directives'
+
+/**
+ * Attribute holding the state an island was server-rendered with.
+ */
+export const ISLAND_STATE_ATTR = 'data-g-state'
+
+/**
+ * When an island is hydrated, mirroring Astro's `client:*` directives.
+ */
+export type IslandStrategy =
+  | { type: 'load' }
+  | { type: 'idle' }
+  | { type: 'visible' }
+  | { type: 'media', query: string }
+
+/**
+ * Import functions for directive modules, keyed by directive name.
+ */
+export type DirectiveLoaders = Record<string, () => Promise<unknown>>
+
+/**
+ * Parse a `g-client` value: `load`, `idle`, `visible` or
+ * `media:<query>`.
+ *
+ * @returns The strategy, or `undefined` if the value is not one
+ */
+export function parseStrategy(value: string | null): IslandStrategy | undefined {
+  const trimmed = value?.trim() || 'load'
+
+  if (trimmed === 'load' || trimmed === 'idle' || trimmed === 'visible') {
+    return { type: trimmed }
+  }
+
+  if (trimmed.startsWith('media:') && trimmed.length > 'media:'.length) {
+    return { type: 'media', query: trimmed.slice('media:'.length).trim() }
+  }
+
+  return undefined
+}
+
+function schedule(el: Element, strategy: IslandStrategy, run: () => void): void {
+  switch (strategy.type) {
+    case 'idle':
+      if ('requestIdleCallback' in window) {
+        window.requestIdleCallback(run)
+      } else {
+        setTimeout(run, 200)
+      }
+      return
+
+    case 'visible': {
+      const observer = new IntersectionObserver((entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          observer.disconnect()
+          run()
+        }
+      })
+      observer.observe(el)
+      return
+    }
+
+    case 'media': {
+      const media = window.matchMedia(strategy.query)
+      if (media.matches) {
+        run()
+        return
+      }
+
+      const onChange = () => {
+        if (media.matches) {
+          media.removeEventListener('change', onChange)
+          run()
+        }
+      }
+      media.addEventListener('change', onChange)
+      return
+    }
+
+    default:
+      run()
+  }
+}
+
+/**
+ * Load the directives an island uses and hydrate it against its state.
+ */
+export async function hydrateIsland(el: Element, loaders: DirectiveLoaders): Promise<void> {
+  const names = (el.getAttribute(ISLAND_DIRECTIVES_ATTR) ?? '').split(',').filter(Boolean)
+  await Promise.all(names.map(name => loaders[name]?.()))
+
+  let state: Record<string, unknown> = {}
+  try {
+    state = JSON.parse(el.getAttribute(ISLAND_STATE_ATTR) || '{}') as Record<string, unknown>
+  } catch {
+    // Hydrate with empty state rather than leave the island inert
+  }
+
+  const { processElementTree, reactive, Mode } = await import('gonia')
+  processElementTree(el, reactive(state), Mode.CLIENT)
+}
+
+/**
+ * Hydrate every island in the page according to its `g-client` strategy.
+ *
+ * @remarks
+ * The Gonia runtime and directive modules are imported only when the
+ * first island is hydrated, so pages without islands load neither.
+ * Islands nested in another island are hydrated with their outer island.
+ *
+ * @example
+ * ```ts
+ * import { hydrateIslands } from 'astrogonia/islands'
+ * import { loaders } from 'virtual:astrogonia/islands'
+ *
+ * hydrateIslands(loaders)
+ * ```
+ */
+export function hydrateIslands(loaders: DirectiveLoaders, root: ParentNode = document): void {
+  for (const el of Array.from(root.querySelectorAll(`[${ISLAND_ATTR}]`))) {
+    if (el.parentElement?.closest(`[${ISLAND_ATTR}]`)) {
+      continue
+    }
+
+    const strategy = parseStrategy(el.getAttribute(ISLAND_ATTR)) ?? { type: 'load' }
+    schedule(el, strategy, () => {
+      hydrateIsland(el, loaders).catch((err: unknown) => {
+        console.error('[astrogonia] Could not hydrate island', el, err)
+      })
+    })
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { createMemoryRegistry } from 'gonia'
+import { render, registerService } from 'gonia/server'
+import { applyLayout, createIncludeRegistry, expandIncludes, readTemplatePage } from './layouts.js'
+import { createDirectiveRegistry } from './renderer.js'
+
+const templates = createMemoryRegistry({
+  base: '<header><slot name="header">Default header</slot></header><main><slot></slot></main><footer><slot name="footer"></slot></footer>',
+  docs: '<div class="docs" g-template="base"><nav slot="header">Docs</nav><article><slot></slot></article></div>',
+  guide: '<section g-template="docs"><slot></slot></section>',
+  loop: '<div g-template="loop-back"><slot></slot></div>',
+  'loop-back': '<div g-template="loop"><slot></slot></div>',
+})
+
+describe('applyLayout', () => {
+  it('fills default and named slots', async () => {
+    const html = await applyLayout('base', '<p>Body</p><small slot="footer">Footer</small>', templates)
+
+    expect(html).toBe('<header><slot name="header">Default header</slot></header><main><p>Body</p></main><footer><small slot="footer">Footer</small></footer>')
+  })
+
+  it('keeps fallback content for slots without content', async () => {
+    const html = await applyLayout('base', '', templates)
+
+    expect(html).toBe('<header><slot name="header">Default header</slot></header><main><slot></slot></main><footer><slot name="footer"></slot></footer>')
+  })
+
+  it('matches the runtime g-template directive', async () => {
+    const content = '<p>Body</p> text <small slot="footer">Footer</small>'
+    registerService('$templates', templates)
+    const runtime = await render(`<div g-template="base">${content}</div>`, {}, createDirectiveRegistry())
+
+    expect(runtime).toBe(`<div g-template="base">${await applyLayout('base', content, templates)}</div>`)
+  })
+
+  it('expands layouts that extend other layouts', async () => {
+    const html = await applyLayout('docs', '<p>Body</p><small slot="footer">Footer</small>', templates)
+
+    expect(html).toBe('<div class="docs"><header><nav slot="header">Docs</nav></header><main><article><p>Body</p></article></main><footer><small slot="footer">Footer</small></footer></div>')
+  })
+
+  it('expands multiple levels of inheritance', async () => {
+    const html = await applyLayout('guide', '<p>Body</p>', templates)
+
+    expect(html).toBe('<section><div class="docs"><header><nav slot="header">Docs</nav></header><main><article><p>Body</p></article></main><footer><slot name="footer"></slot></footer></div></section>')
+  })
+
+  it('detects template cycles', async () => {
+    await expect(applyLayout('loop', '<p>Body</p>', templates))
+      .rejects.toThrow('[astrogonia] Template cycle detected: loop -> loop-back -> loop')
+  })
+
+  it('rejects missing templates', async () => {
+    await expect(applyLayout('missing', '<p>Body</p>', templates))
+      .rejects.toThrow('Template not found: missing')
+  })
+
+  it('uses the body of full-document templates', async () => {
+    const documents = createMemoryRegistry({
+      page: '<!DOCTYPE html><html><head><title>Site</title></head><body><main><slot></slot></main></body></html>'
+    })
+
+    expect(await applyLayout('page', '<p>Body</p>', documents)).toBe('<main><p>Body</p></main>')
+  })
+})
+
+describe('readTemplatePage', () => {
+  it('splits a page shell into head elements, root attributes and content', () => {
+    const page = readTemplatePage(`<!DOCTYPE html>\n<title>Docs</title>\n<!-- page -->\n<div g-template="base" g-scope='{"a":1}'>\n  <p>Body</p>\n</div>\n<link rel="canonical" href="/docs">\n`)
+
+    expect(page?.template.value).toBe('base')
+    expect(page?.attrs.map(attr => attr.source)).toEqual(['g-template="base"', `g-scope='{"a":1}'`])
+    expect(page?.head).toBe('<title>Docs</title><!-- page --><link rel="canonical" href="/docs">')
+    expect(page?.content).toBe('\n  <p>Body</p>\n')
+  })
+
+  it('only reads shells', () => {
+    expect(readTemplatePage('<html><body g-template="base"></body></html>')).toBeUndefined()
+    expect(readTemplatePage('<div g-template="base"></div>text')).toBeUndefined()
+    expect(readTemplatePage('<div class="page"></div>')).toBeUndefined()
+  })
+})
+
+describe('expandIncludes', () => {
+  const partials = createMemoryRegistry({
+    'cards/post': '<article><h2 g-text="title"></h2><slot></slot><footer><slot name="meta"></slot></footer></article>',
+    'cards/list': '<ul><li g-include="cards/post"></li></ul>',
+    'loop/a': '<p g-include="loop/b"></p>',
+    'loop/b': '<p g-include="loop/a"></p>'
+  })
+
+  it('puts partials in place and fills their slots', async () => {
+    const html = await expandIncludes('<div g-include="cards/post with { title: post.title }"><p>Body</p><small slot="meta">Ada</small></div>', partials)
+
+    expect(html).toBe('<div g-include="cards/post with { title: post.title }"><article><h2 g-text="title"></h2><p>Body</p><footer><small slot="meta">Ada</small></footer></article></div>')
+  })
+
+  it('expands the body of full documents only', async () => {
+    const html = await expandIncludes('<!DOCTYPE html><html><head><title>g-include</title></head><body><div g-include="cards/post"></div></body></html>', partials)
+
+    expect(html).toBe('<!DOCTYPE html><html><head><title>g-include</title></head><body><div g-include="cards/post"><article><h2 g-text="title"></h2><slot></slot><footer><slot name="meta"></slot></footer></article></div></body></html>')
+  })
+
+  it('expands partials that include others through a registry', async () => {
+    const templates = createIncludeRegistry(partials)
+
+    expect(await templates.get('cards/list')).toBe('<ul><li g-include="cards/post"><article><h2 g-text="title"></h2><slot></slot><footer><slot name="meta"></slot></footer></article></li></ul>')
+    await expect(templates.get('loop/a')).rejects.toThrow('Include cycle detected: loop/a -> loop/b -> loop/a')
+  })
+})
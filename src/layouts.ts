@@ -0,0 +1,327 @@
+/**
+ * Build-time layout expansion for body `g-template`, for pages whose
+ * whole document comes from a template, and for `g-include` partials.
+ *
+ * @packageDocumentation
+ */
+
+import { Window } from 'happy-dom'
+import { parseFragment, type DefaultTreeAdapterMap } from 'parse5'
+import type { TemplateRegistry } from 'gonia'
+import { parseDocument, type SourceAttribute } from './document.js'
+import { extractSlotContent, fillSlots, type SlotContent } from './slots.js'
+import { INCLUDE_ATTR, parseInclude } from './includes.js'
+
+/**
+ * The part of a template that fills an element: the body content of a
+ * full document, or the whole template otherwise.
+ */
+function templateBody(source: string): string {
+  const { body } = parseDocument(source)
+  return body ? source.slice(body.content.start, body.content.end) : source
+}
+
+/**
+ * Expand a template with the given slot content.
+ *
+ * @remarks
+ * Elements inside the template that declare `g-template` are expanded
+ * first, so a layout can extend another layout. Slots the extended layout
+ * leaves unfilled stay available to the page.
+ */
+async function expandTemplate(
+  name: string,
+  slots: SlotContent,
+  templates: TemplateRegistry,
+  window: Window,
+  chain: string[]
+): Promise<string> {
+  if (chain.includes(name)) {
+    throw new Error(`[astrogonia] Template cycle detected: ${[...chain, name].join(' -> ')}`)
+  }
+
+  const root = window.document.createElement('div') as unknown as Element
+  root.innerHTML = templateBody(await templates.get(name))
+
+  const nested = Array.from(root.querySelectorAll('[g-template]'))
+    .filter(el => !el.parentElement?.closest('[g-template]'))
+
+  for (const el of nested) {
+    const parentName = el.getAttribute('g-template')!
+    el.innerHTML = await expandTemplate(
+      parentName,
+      extractSlotContent(el),
+      templates,
+      window,
+      [...chain, name]
+    )
+    el.removeAttribute('g-template')
+  }
+
+  fillSlots(root, slots)
+
+  return root.innerHTML
+}
+
+/**
+ * Apply a layout template to page content.
+ *
+ * @param name - Template name, resolved through the template registry
+ * @param content - Page HTML distributed into the template's slots
+ * @param templates - Template registry
+ * @returns The expanded HTML
+ * @throws If a template is missing or the layout chain is cyclic
+ */
+export async function applyLayout(
+  name: string,
+  content: string,
+  templates: TemplateRegistry
+): Promise<string> {
+  const window = new Window()
+
+  try {
+    const source = window.document.createElement('div') as unknown as Element
+    source.innerHTML = content
+
+    return await expandTemplate(name, extractSlotContent(source), templates, window, [])
+  } finally {
+    await window.happyDOM.close()
+  }
+}
+
+type FragmentNode = DefaultTreeAdapterMap['childNode']
+type FragmentElement = DefaultTreeAdapterMap['element']
+
+/**
+ * Elements a page shell places in the head rather than the body.
+ */
+const HEAD_ELEMENTS = new Set(['base', 'link', 'meta', 'noscript', 'script', 'style', 'title'])
+
+/**
+ * A page whose document comes from a template, as written.
+ */
+export interface TemplatePage {
+  /**
+   * The `g-template` attribute of the page's root element.
+   */
+  template: SourceAttribute
+  /**
+   * Attributes of the root element, as written, for the `<body>`.
+   */
+  attrs: SourceAttribute[]
+  /**
+   * Head elements and comments around the root element, as written.
+   */
+  head: string
+  /**
+   * Content of the root element, distributed into the template's slots.
+   */
+  content: string
+}
+
+function isWhitespace(node: FragmentNode): boolean {
+  return node.nodeName === '#text' && !('value' in node && node.value.trim())
+}
+
+/**
+ * Read a page shell: a single root element with `g-template`, alongside
+ * head elements such as `<title>`, `<meta>` or the scripts Astro adds.
+ *
+ * @returns The page, or `undefined` when the markup is a document with its
+ * own `<html>`, `<head>` or `<body>`, or isn't a shell
+ *
+ * @example
+ * ```html
+ * <title>Docs</title>
+ * <main g-template="layouts/base" g-scope='{"section":"docs"}'>
+ *   <h1>Docs</h1>
+ * </main>
+ * ```
+ */
+export function readTemplatePage(html: string): TemplatePage | undefined {
+  const document = parseDocument(html)
+  if (document.html || document.head || document.body) {
+    return undefined
+  }
+
+  const head: string[] = []
+  let root: FragmentElement | undefined
+  for (const node of parseFragment(html, { sourceCodeLocationInfo: true }).childNodes) {
+    const location = node.sourceCodeLocation
+    if (isWhitespace(node) || !location) {
+      continue
+    }
+
+    const source = html.slice(location.startOffset, location.endOffset)
+    if (node.nodeName === '#comment') {
+      head.push(source)
+    } else if ('tagName' in node && HEAD_ELEMENTS.has(node.tagName)) {
+      head.push(source)
+    } else if ('tagName' in node && !root) {
+      root = node
+    } else {
+      // Text or a second root: not a shell
+      return undefined
+    }
+  }
+
+  const location = root?.sourceCodeLocation
+  const startTag = location?.startTag
+  if (!root || !location || !startTag) {
+    return undefined
+  }
+
+  const attrs = root.attrs.map((attr) => {
+    const attrLocation = location.attrs?.[attr.name]
+    return {
+      name: attr.name,
+      value: attr.value,
+      source: attrLocation ? html.slice(attrLocation.startOffset, attrLocation.endOffset) : attr.name,
+      offset: attrLocation?.startOffset ?? startTag.startOffset
+    }
+  })
+  const template = attrs.find(attr => attr.name === 'g-template')
+  if (!template?.value) {
+    return undefined
+  }
+
+  return {
+    template,
+    attrs,
+    head: head.join(''),
+    content: html.slice(startTag.endOffset, location.endTag?.startOffset ?? location.endOffset)
+  }
+}
+
+/**
+ * Build the document of a page shell from its template.
+ *
+ * @remarks
+ * A full-document template provides the `<html>`, the head and the
+ * `<body>`: the page's head elements are added at the end of the head and
+ * the root element's attributes, including `g-template`, are added to the
+ * `<body>`. Any other template is placed in a minimal document. Either way
+ * the body `g-template` is then expanded like any other, so the template's
+ * body and the layouts it extends fill with the root element's content.
+ *
+ * @throws If the template is missing
+ */
+export async function createTemplatePageDocument(page: TemplatePage, templates: TemplateRegistry): Promise<string> {
+  const source = await templates.get(page.template.value)
+  const document = parseDocument(source)
+  const { head, body } = document
+
+  const names = new Set(page.attrs.map(attr => attr.name))
+  const attrs = [
+    ...body?.attrs.filter(attr => !names.has(attr.name)) ?? [],
+    ...page.attrs
+  ]
+  const bodyTag = `<body${attrs.map(attr => ' ' + attr.source).join('')}>`
+
+  if (!body) {
+    return `<!DOCTYPE html><html><head>${page.head}</head>${bodyTag}${page.content}</body></html>`
+  }
+
+  const headEnd = head ? head.content.end : body.startTag.start
+  return source.slice(0, headEnd)
+    + (head ? page.head : `<head>${page.head}</head>`)
+    + source.slice(headEnd, body.startTag.start)
+    + bodyTag
+    + page.content
+    + source.slice(body.content.end)
+}
+
+/**
+ * Include elements in document order, including those in `<template>`
+ * content such as `g-for` items.
+ */
+function includeElements(root: ParentNode): Element[] {
+  const found: Element[] = []
+  for (const el of Array.from(root.querySelectorAll(`[${INCLUDE_ATTR}], template`))) {
+    if (el.hasAttribute(INCLUDE_ATTR)) {
+      found.push(el)
+    }
+    if (el.tagName === 'TEMPLATE') {
+      found.push(...includeElements((el as HTMLTemplateElement).content))
+    }
+  }
+  return found
+}
+
+/**
+ * Put the partial of each `g-include` element in place, with the
+ * element's children filling the partial's slots.
+ *
+ * @remarks
+ * Includes nested in slot content are expanded before the include around
+ * them. Partials come from `templates` as they are, so includes inside
+ * them are expanded only by an include registry, see
+ * {@link createIncludeRegistry}. In a full document, only the body is
+ * expanded.
+ *
+ * @throws If a partial is missing or the includes form a cycle
+ */
+export async function expandIncludes(html: string, templates: TemplateRegistry): Promise<string> {
+  if (!html.includes(INCLUDE_ATTR)) {
+    return html
+  }
+
+  const { body } = parseDocument(html)
+  if (body) {
+    const content = await expandIncludes(html.slice(body.content.start, body.content.end), templates)
+    return html.slice(0, body.content.start) + content + html.slice(body.content.end)
+  }
+
+  const window = new Window()
+
+  try {
+    const root = window.document.createElement('div') as unknown as Element
+    root.innerHTML = html
+
+    // Innermost first, so slot content is expanded before it moves
+    for (const el of includeElements(root).reverse()) {
+      const { name } = parseInclude(el.getAttribute(INCLUDE_ATTR)!)
+      const slots = extractSlotContent(el)
+      el.innerHTML = await templates.get(name)
+      fillSlots(el, slots)
+    }
+
+    return root.innerHTML
+  } finally {
+    await window.happyDOM.close()
+  }
+}
+
+/**
+ * Wrap a template registry so every template comes with its includes
+ * expanded.
+ *
+ * @remarks
+ * Expanded templates are kept for the life of the registry, so each
+ * renderer, and so each build, expands a partial once. Templates that
+ * include themselves, directly or through other partials, are rejected.
+ */
+export function createIncludeRegistry(templates: TemplateRegistry): TemplateRegistry {
+  const expanded = new Map<string, string>()
+
+  // Templates still being expanded aren't shared, so a cycle can't leave
+  // two expansions waiting on each other
+  const load = async (name: string, chain: string[]): Promise<string> => {
+    if (chain.includes(name)) {
+      throw new Error(`[astrogonia] Include cycle detected: ${[...chain, name].join(' -> ')}`)
+    }
+
+    const cached = expanded.get(name)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const source = await expandIncludes(await templates.get(name), {
+      get: include => load(include, [...chain, name])
+    })
+    expanded.set(name, source)
+    return source
+  }
+
+  return { get: name => load(name, []) }
+}
@@ -0,0 +1,140 @@
+/**
+ * Per-page data loaders for SSR state.
+ *
+ * @packageDocumentation
+ */
+
+import type { DiagnosticReporter } from './diagnostics.js'
+
+/**
+ * Route information passed to a {@link Loader}.
+ */
+export interface LoaderContext {
+  /**
+   * Pathname of the page being rendered, e.g. `/blog/hello/`.
+   */
+  pathname: string
+  /**
+   * Route params of the page, e.g. `{ slug: 'hello' }` for `/blog/[slug]`.
+   */
+  params: Record<string, string | undefined>
+}
+
+/**
+ * Load state for a single page render.
+ *
+ * @remarks
+ * The returned state is merged over the integration `state` option and
+ * under any state declared in the page itself.
+ *
+ * @typeParam State - Shape of the page state, of which the loader returns
+ * a part
+ */
+export type Loader<State extends object = Record<string, unknown>> = (
+  context: LoaderContext
+) => Partial<State> | undefined | Promise<Partial<State> | undefined>
+
+/**
+ * The parts of a resolved Astro route needed to match a pathname.
+ */
+export interface LoaderRoute {
+  patternRegex: RegExp
+  params: string[]
+}
+
+/**
+ * Derive the route pathname from an HTML file in the build output.
+ *
+ * @example
+ * ```ts
+ * pathnameFromFile('index.html')             // '/'
+ * pathnameFromFile('docs/intro/index.html')  // '/docs/intro/'
+ * pathnameFromFile('about.html')             // '/about'
+ * ```
+ */
+export function pathnameFromFile(relativePath: string): string {
+  const path = relativePath.replace(/\\/g, '/')
+
+  if (path === 'index.html') {
+    return '/'
+  }
+
+  if (path.endsWith('/index.html')) {
+    return '/' + path.slice(0, -'index.html'.length)
+  }
+
+  return '/' + path.replace(/\.html$/, '')
+}
+
+/**
+ * Find the first route that matches a pathname.
+ *
+ * @remarks
+ * A pathname that no route matches is tried again with its trailing slash
+ * toggled: the build writes `blog/hello/index.html` for `/blog/hello`,
+ * which routes only match without the slash under `trailingSlash: 'never'`.
+ */
+export function matchRoute<Route extends LoaderRoute>(pathname: string, routes: Route[]): { route: Route, match: RegExpExecArray } | undefined {
+  const candidates = pathname === '/'
+    ? [pathname]
+    : [pathname, pathname.endsWith('/') ? pathname.slice(0, -1) : pathname + '/']
+
+  for (const candidate of candidates) {
+    for (const route of routes) {
+      const match = route.patternRegex.exec(candidate)
+      if (match) {
+        return { route, match }
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find the params for a pathname from the first route that matches it,
+ * see {@link matchRoute}.
+ */
+export function matchParams(pathname: string, routes: LoaderRoute[]): Record<string, string | undefined> {
+  const matched = matchRoute(pathname, routes)
+  if (!matched) {
+    return {}
+  }
+
+  const params: Record<string, string | undefined> = {}
+  matched.route.params.forEach((name, index) => {
+    const value = matched.match[index + 1]
+    params[name] = value === undefined ? undefined : decodeURIComponent(value)
+  })
+  return params
+}
+
+/**
+ * Run a loader for a page, treating a missing loader as empty state.
+ *
+ * @returns The page state, or `undefined` if the loader failed. Failures
+ * are reported rather than thrown, since rendering without the loader's
+ * data would produce a misleading page.
+ */
+export async function loadPageState(
+  loader: Loader | undefined,
+  context: LoaderContext,
+  report: DiagnosticReporter
+): Promise<Record<string, unknown> | undefined> {
+  if (!loader) {
+    return {}
+  }
+
+  try {
+    return (await loader(context)) ?? {}
+  } catch (err) {
+    report({
+      severity: 'error',
+      code: 'loader',
+      message: `Loader failed for ${context.pathname}: ${err instanceof Error ? err.message : String(err)}`,
+      file: context.pathname,
+      cause: err
+    })
+    return undefined
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest'
+import { readFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import type { APIContext, MiddlewareHandler, MiddlewareNext } from 'astro'
+import { onRequest } from './middleware.js'
+
+const config = vi.hoisted(() => ({
+  dev: true,
+  options: { state: { site: 'Docs' }, templatesDir: 'src/templates', templatePages: true, templateRoutes: ['/docs'], serializeState: true, stateSources: { nav: 'src/data/nav.json' } },
+  directives: {},
+  loader: ({ params }: { params: Record<string, string | undefined> }) =>
+    params.slug ? { slug: params.slug } : undefined,
+  report: undefined,
+  stateSources: undefined,
+  stateFiles: { 'src/data/nav.json': ['Home', 'Blog'] },
+  catalogs: {},
+  styleSheets: { exports: {}, css: {}, directives: {} },
+  getCollection: undefined,
+  templates: { base: '<main><slot></slot></main>' }
+}))
+
+vi.mock('virtual:astrogonia/config', () => config)
+
+function htmlResponse(html: string): Response {
+  return new Response(html, {
+    headers: { 'content-type': 'text/html' }
+  })
+}
+
+function callMiddleware(context: Partial<APIContext>, next: MiddlewareNext, handler: MiddlewareHandler = onRequest) {
+  const request = { url: new URL('http://localhost/'), params: {}, ...context }
+  return handler(request as APIContext, next) as Promise<Response>
+}
+
+/**
+ * Packages the middleware's module graph imports, following relative
+ * imports from `src/middleware.ts` and leaving out type-only imports,
+ * which the bundle never sees.
+ */
+async function importedPackages(): Promise<Set<string>> {
+  const packages = new Set<string>()
+  const seen = new Set<string>()
+  const visit = async (url: URL) => {
+    if (seen.has(url.href)) {
+      return
+    }
+    seen.add(url.href)
+
+    const source = await readFile(fileURLToPath(url), 'utf-8')
+    const imports = source.matchAll(/^\s*(?:import|export)(?!\s+type\b)[^'"]*?from\s*'([^']+)'|\bimport\(\s*'([^']+)'/gm)
+    for (const [, from, dynamic] of imports) {
+      const specifier = from ?? dynamic
+      if (specifier.startsWith('.')) {
+        await visit(new URL(specifier.replace(/\.js$/, '.ts'), url))
+      } else {
+        packages.add(specifier)
+      }
+    }
+  }
+
+  await visit(new URL('./middleware.ts', import.meta.url))
+  return packages
+}
+
+/**
+ * The middleware as bundled by `astro build`, whose config module says
+ * it isn't running in the dev server.
+ */
+async function buildMiddleware(): Promise<MiddlewareHandler> {
+  vi.resetModules()
+  vi.doMock('virtual:astrogonia/config', () => ({ ...config, dev: false }))
+  return (await import('./middleware.js')).onRequest
+}
+
+describe('middleware', () => {
+  it('renders directives in dev', async () => {
+    const page = '<!DOCTYPE html><html><body g-scope="{&quot;name&quot;:&quot;Ada&quot;}"><p g-text="name"></p></body></html>'
+    const response = await callMiddleware({ isPrerendered: true }, async () => htmlResponse(page))
+
+    expect(await response.text()).toContain('<p g-text="name">Ada</p>')
+  })
+
+  it('renders with state and templates from the integration options', async () => {
+    const page = '<!DOCTYPE html><html><body g-template="base"><h1 g-text="site"></h1></body></html>'
+    const response = await callMiddleware({ isPrerendered: false }, async () => htmlResponse(page))
+
+    expect(await response.text()).toBe('<!DOCTYPE html><html><body><main><h1 g-text="site">Docs</h1></main><script id="gonia-state" type="application/json">{"site":"Docs","$data":{"nav":["Home","Blog"]}}</script></body></html>')
+  })
+
+  it('loads page state from the route', async () => {
+    const page = '<!DOCTYPE html><html><body><h1 g-text="slug"></h1></body></html>'
+    const response = await callMiddleware({
+      isPrerendered: false,
+      url: new URL('http://localhost/blog/hello'),
+      params: { slug: 'hello' }
+    }, async () => htmlResponse(page))
+
+    expect(await response.text()).toContain('<h1 g-text="slug">hello</h1>')
+  })
+
+  it('exposes state sources as $data', async () => {
+    const page = '<!DOCTYPE html><html><body><p g-text="$data.nav.join(\', \')"></p></body></html>'
+    const response = await callMiddleware({ isPrerendered: false }, async () => htmlResponse(page))
+
+    expect(await response.text()).toContain('Home, Blog</p>')
+  })
+
+  it('builds template documents only for routes written as template pages', async () => {
+    const shell = '<section g-template="base"><p g-text="site"></p></section>'
+    const page = await callMiddleware({ routePattern: '/docs' }, async () => htmlResponse(shell))
+    const fragment = await callMiddleware({ routePattern: '/fragments/nav' }, async () => htmlResponse(shell))
+
+    expect(await page.text()).toContain('<html><head></head><body><main><p g-text="site">Docs</p></main>')
+    expect(await fragment.text()).toBe('<section g-template="base"><main><p g-text="site">Docs</p></main></section>')
+  })
+
+  it('renders on-demand routes in production', async () => {
+    const page = '<!DOCTYPE html><html><body g-scope="{&quot;name&quot;:&quot;Ada&quot;}"><p g-text="name"></p></body></html>'
+    const response = await callMiddleware({ isPrerendered: false }, async () => htmlResponse(page), await buildMiddleware())
+
+    expect(await response.text()).toContain('<p g-text="name">Ada</p>')
+  })
+
+  it('leaves prerendered routes to the build pass in production', async () => {
+    const original = htmlResponse('<!DOCTYPE html><html><body><p g-text="name"></p></body></html>')
+    const response = await callMiddleware({ isPrerendered: true }, async () => original, await buildMiddleware())
+
+    expect(response).toBe(original)
+  })
+
+  it('keeps the optional style compiler out of its bundle', async () => {
+    const packages = await importedPackages()
+
+    expect(packages).toContain('virtual:astrogonia/config')
+    expect(packages).not.toContain('@vanilla-extract/integration')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Discovery of HTML files emitted by an Astro build.
+ *
+ * @packageDocumentation
+ */
+
+import { access } from 'node:fs/promises'
+import { relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { glob } from 'tinyglobby'
+
+export interface OutputFilesOptions {
+  /**
+   * Glob patterns, relative to the output directory, of files to process.
+   */
+  include: string[]
+  /**
+   * Glob patterns, relative to the output directory, of files to skip.
+   */
+  exclude: string[]
+}
+
+/**
+ * Find the HTML files in a build output directory.
+ *
+ * @remarks
+ * The directory is walked rather than derived from page pathnames, so every
+ * `build.format`, error pages like `404.html` and pages written by other
+ * integrations are all covered.
+ *
+ * Every HTML file Astro reports in `assets` must exist on disk; a missing
+ * file throws instead of surfacing later as an unhandled read error.
+ *
+ * @param dir - The build output directory
+ * @param assets - Route pattern to output file mapping from `astro:build:done`
+ * @param options - Include and exclude globs
+ * @returns Absolute paths of the HTML files to process
+ */
+export async function findHtmlFiles(
+  dir: URL,
+  assets: Map<string, URL[]> | undefined,
+  options: OutputFilesOptions
+): Promise<string[]> {
+  const dirPath = fileURLToPath(dir)
+
+  for (const [pattern, urls] of assets ?? []) {
+    for (const url of urls) {
+      const filePath = fileURLToPath(url)
+      if (!filePath.endsWith('.html')) {
+        continue
+      }
+
+      try {
+        await access(filePath)
+      } catch {
+        throw new Error(
+          `[astrogonia] Expected build output ${relative(dirPath, filePath)} for route ${pattern} was not found in ${dirPath}`
+        )
+      }
+    }
+  }
+
+  const files = await glob(options.include, {
+    cwd: dirPath,
+    ignore: options.exclude,
+    absolute: true,
+    onlyFiles: true
+  })
+
+  return files.sort()
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { checkPageLayouts, findLayoutConflict, findTemplateRoutes, isTemplatePageSource } from './pages.js'
+
+const layoutPage = `---
+import Layout from '../layouts/Layout.astro'
+import Card from '../components/Card.astro'
+---
+<Layout title="Docs">
+  <Card />
+  <main g-template="layouts/base">
+    <h1>Docs</h1>
+  </main>
+</Layout>
+`
+
+describe('pages', () => {
+  it('finds pages wrapped in an Astro layout that also use a template layout', () => {
+    expect(findLayoutConflict('src/pages/docs.astro', layoutPage)).toEqual({
+      layout: '<Layout>',
+      template: 'layouts/base',
+      offset: layoutPage.indexOf('<Layout')
+    })
+  })
+
+  it('accepts Astro layouts with templates as components and template-only shells', () => {
+    const components = `---
+import Layout from '../layouts/Layout.astro'
+---
+<Layout><main><div g-template="card"></div></main></Layout>
+`
+    const shell = `---
+import Nav from '../components/Nav.astro'
+---
+<div g-template="layouts/base"><Nav /><h1>Docs</h1></div>
+`
+
+    expect(findLayoutConflict('src/pages/index.astro', components)).toBeUndefined()
+    expect(findLayoutConflict('src/pages/docs.astro', shell)).toBeUndefined()
+  })
+
+  it('finds markdown pages with both a layout and a template', () => {
+    const page = '---\ntitle: Docs\nlayout: ../layouts/Layout.astro\ntemplate: docs\n---\n# Docs\n'
+
+    expect(findLayoutConflict('src/pages/docs.md', page)).toEqual({
+      layout: '../layouts/Layout.astro',
+      template: 'docs',
+      offset: page.indexOf('layout:')
+    })
+    expect(findLayoutConflict('src/pages/about.md', '---\ntemplate: docs\n---\n')).toBeUndefined()
+  })
+
+  it('reports each conflicting page', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-pages-'))
+    try {
+      await mkdir(join(root, 'src/pages/docs'), { recursive: true })
+      await writeFile(join(root, 'src/pages/docs/index.astro'), layoutPage)
+      await writeFile(join(root, 'src/pages/index.html'), '<div g-template="layouts/base"></div>')
+
+      const report = vi.fn()
+      expect(await checkPageLayouts(root, 'src/pages', report)).toBe(1)
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({
+        severity: 'error',
+        code: 'astro-layout',
+        file: 'src/pages/docs/index.astro',
+        line: 5
+      }))
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('finds the routes written as template pages', async () => {
+    const shell = '<title>Docs</title>\n<main g-template="layouts/base"><h1>Docs</h1></main>\n'
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-pages-'))
+    try {
+      await mkdir(join(root, 'src/pages'), { recursive: true })
+      await writeFile(join(root, 'src/pages/docs.html'), shell)
+      await writeFile(join(root, 'src/pages/about.astro'), `---\nconst title = 'About'\n---\n${shell}`)
+      await writeFile(join(root, 'src/pages/nav.astro'), `---\nexport const partial = true\n---\n${shell}`)
+      await writeFile(join(root, 'src/pages/index.html'), '<!DOCTYPE html><html><body g-template="layouts/base"></body></html>')
+
+      expect(isTemplatePageSource('src/pages/docs.md', shell)).toBe(false)
+      expect(await findTemplateRoutes(root, [
+        { pattern: '/docs', entrypoint: 'src/pages/docs.html' },
+        { pattern: '/about', entrypoint: 'src/pages/about.astro' },
+        { pattern: '/nav', entrypoint: 'src/pages/nav.astro' },
+        { pattern: '/', entrypoint: 'src/pages/index.html' },
+        { pattern: '/api', entrypoint: 'node_modules/some-package/page.astro' }
+      ])).toEqual(['/docs', '/about'])
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+})
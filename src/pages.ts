@@ -0,0 +1,256 @@
+/**
+ * Checks for pages that take their layout from both Astro and Gonia, for
+ * projects that build layouts from templates alone.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { parseFragment, type DefaultTreeAdapterMap } from 'parse5'
+import { glob } from 'tinyglobby'
+import { load as parseYaml } from 'js-yaml'
+import { locate, type DiagnosticReporter } from './diagnostics.js'
+import { readTemplatePage } from './layouts.js'
+
+type FragmentNode = DefaultTreeAdapterMap['childNode']
+type FragmentElement = DefaultTreeAdapterMap['element']
+
+/**
+ * A page that wraps its content in an Astro layout and also applies a
+ * Gonia template as its layout.
+ */
+export interface LayoutConflict {
+  /**
+   * The Astro component or frontmatter `layout`.
+   */
+  layout: string
+  /**
+   * The template name.
+   */
+  template: string
+  /**
+   * Offset of the layout in the page source.
+   */
+  offset: number
+}
+
+/**
+ * A page route and the file it's built from.
+ */
+export interface PageRoute {
+  /**
+   * Route pattern, e.g. `/docs/[slug]`.
+   */
+  pattern: string
+  /**
+   * Source of the route (relative to project root).
+   */
+  entrypoint: string
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---/
+
+/**
+ * Matches default imports of `.astro` components.
+ */
+const COMPONENT_IMPORT_PATTERN = /\bimport\s+([A-Za-z_$][\w$]*)\s+from\s+(['"])[^'"]+\.astro\2/g
+
+const PARTIAL_PATTERN = /\bexport\s+const\s+partial\s*=\s*true\b/
+
+const BODY_TEMPLATE_PATTERN = /<body\b[^>]*?\sg-template\s*=\s*(['"])([^'"]*)\1/i
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+
+function isElement(node: FragmentNode): node is FragmentElement {
+  return 'tagName' in node
+}
+
+/**
+ * Tag name as written, since the parser lowercases it.
+ */
+function writtenName(source: string, el: FragmentElement): string {
+  const start = el.sourceCodeLocation?.startTag?.startOffset ?? 0
+  return /^<([\w.:-]+)/.exec(source.slice(start))?.[1] ?? el.tagName
+}
+
+/**
+ * Whether an element was written as `<X />`, which the parser reads as a
+ * start tag whose following siblings become its children.
+ */
+function isSelfClosing(source: string, el: FragmentElement): boolean {
+  const startTag = el.sourceCodeLocation?.startTag
+  return !VOID_ELEMENTS.has(el.tagName) && !!startTag && source.slice(startTag.startOffset, startTag.endOffset).endsWith('/>')
+}
+
+/**
+ * Elements at one level of the source, with the siblings a self-closing
+ * component swallowed put back in place.
+ */
+function elementsAt(source: string, nodes: FragmentNode[]): FragmentElement[] {
+  return nodes.filter(isElement).flatMap(el => isSelfClosing(source, el)
+    ? [el, ...elementsAt(source, el.childNodes)]
+    : [el])
+}
+
+/**
+ * Find the layouts of an `.astro` page.
+ *
+ * @remarks
+ * A layout component is an imported `.astro` component that wraps the
+ * page's outermost content. A template layout is a `g-template` on
+ * `<body>`, on an outermost element or on an element a layout component
+ * wraps directly.
+ */
+function findAstroConflict(source: string): LayoutConflict | undefined {
+  const frontmatter = FRONTMATTER_PATTERN.exec(source)
+  const components = new Set([...frontmatter?.[1].matchAll(COMPONENT_IMPORT_PATTERN) ?? []].map(match => match[1]))
+  if (components.size === 0) {
+    return undefined
+  }
+
+  // Blank out the frontmatter so offsets stay those of the page
+  const markup = frontmatter ? ' '.repeat(frontmatter[0].length) + source.slice(frontmatter[0].length) : source
+  let layout: { name: string, offset: number } | undefined
+  let template = BODY_TEMPLATE_PATTERN.exec(markup)?.[2]
+
+  for (const el of elementsAt(markup, parseFragment(markup, { sourceCodeLocationInfo: true }).childNodes)) {
+    const name = writtenName(markup, el)
+    const isLayout = components.has(name) && !isSelfClosing(markup, el)
+    if (isLayout) {
+      layout ??= { name, offset: el.sourceCodeLocation?.startOffset ?? 0 }
+    }
+
+    const outermost = isLayout ? elementsAt(markup, el.childNodes) : [el]
+    template ??= outermost.map(child => child.attrs.find(attr => attr.name === 'g-template')?.value).find(Boolean)
+  }
+
+  return layout && template ? { layout: `<${layout.name}>`, template, offset: layout.offset } : undefined
+}
+
+/**
+ * Find the layouts of a markdown page: a frontmatter `layout` along with a
+ * frontmatter `template`.
+ */
+function findMarkdownConflict(source: string): LayoutConflict | undefined {
+  const frontmatter = FRONTMATTER_PATTERN.exec(source)
+  let data: unknown
+  try {
+    data = frontmatter && parseYaml(frontmatter[1])
+  } catch {
+    // Reported by the markdown pipeline
+    return undefined
+  }
+
+  if (!data || typeof data !== 'object') {
+    return undefined
+  }
+
+  const { layout, template } = data as Record<string, unknown>
+  if (typeof layout !== 'string' || typeof template !== 'string' || !template) {
+    return undefined
+  }
+
+  return { layout, template, offset: source.search(/^layout\s*:/m) }
+}
+
+/**
+ * Find a page's Astro layout and template layout, when it has both.
+ *
+ * @param file - Path of the page, whose extension selects how it's read
+ * @param source - Source of the page
+ */
+export function findLayoutConflict(file: string, source: string): LayoutConflict | undefined {
+  if (file.endsWith('.astro')) {
+    return findAstroConflict(source)
+  }
+  if (/\.mdx?$/.test(file)) {
+    return findMarkdownConflict(source)
+  }
+  return undefined
+}
+
+/**
+ * Report the pages that mix Astro layouts with Gonia template layouts.
+ *
+ * @param pagesDir - Directory of the pages (relative to project root)
+ * @returns How many pages were reported
+ */
+export async function checkPageLayouts(root: string, pagesDir: string, report: DiagnosticReporter): Promise<number> {
+  const files = await glob('**/*.{astro,md,mdx}', { cwd: join(root, pagesDir), onlyFiles: true })
+  let count = 0
+
+  for (const file of files.sort()) {
+    const path = join(pagesDir, file).replace(/\\/g, '/')
+    const source = await readFile(join(root, path), 'utf-8')
+    const conflict = findLayoutConflict(path, source)
+    if (!conflict) {
+      continue
+    }
+
+    count++
+    report({
+      severity: 'error',
+      code: 'astro-layout',
+      message: `Page uses the Astro layout ${conflict.layout} and the template "${conflict.template}"; with astroTemplating disabled, take the layout from the template alone`,
+      file: path,
+      directive: 'g-template',
+      ...locate(source, Math.max(conflict.offset, 0))
+    })
+  }
+
+  return count
+}
+
+/**
+ * Whether a page is written as a template page: head elements and a
+ * single root element with `g-template`.
+ *
+ * @remarks
+ * Only `.html` and `.astro` pages qualify. Astro partials are served as
+ * fragments, so they never do.
+ *
+ * @param file - Path of the page, whose extension selects how it's read
+ * @param source - Source of the page
+ */
+export function isTemplatePageSource(file: string, source: string): boolean {
+  if (file.endsWith('.html')) {
+    return readTemplatePage(source) !== undefined
+  }
+  if (!file.endsWith('.astro')) {
+    return false
+  }
+
+  const frontmatter = FRONTMATTER_PATTERN.exec(source)
+  if (frontmatter && PARTIAL_PATTERN.test(frontmatter[1])) {
+    return false
+  }
+  return readTemplatePage(frontmatter ? source.slice(frontmatter[0].length) : source) !== undefined
+}
+
+/**
+ * Patterns of the routes whose source is a template page, the only
+ * responses whose document is built from their `g-template`.
+ *
+ * @remarks
+ * Routes whose source can't be read, such as those injected from
+ * packages, are left out.
+ */
+export async function findTemplateRoutes(root: string, routes: PageRoute[]): Promise<string[]> {
+  const patterns: string[] = []
+
+  for (const route of routes) {
+    let source: string
+    try {
+      source = await readFile(join(root, route.entrypoint), 'utf-8')
+    } catch {
+      continue
+    }
+
+    if (isTemplatePageSource(route.entrypoint, source)) {
+      patterns.push(route.pattern)
+    }
+  }
+
+  return patterns
+}
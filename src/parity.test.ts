@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, mkdir, readFile, rm, symlink, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { APIContext, MiddlewareNext } from 'astro'
+import astrogonia from './index.js'
+import { onRequest } from './middleware.js'
+
+const fixtures = vi.hoisted(() => ({
+  state: { site: 'Docs' },
+  templates: {
+    base: '<main><slot></slot></main><footer><slot name="footer"></slot></footer>',
+    docs: '<div class="docs" g-template="base"><article><slot></slot></article></div>'
+  },
+  pages: {
+    'state-script': '<!DOCTYPE html><html><head><script id="gonia-state" type="application/json">{"title":"Hello"}</script></head><body><h1 g-text="title"></h1><p g-text="site"></p></body></html>',
+    'body-scope': `<!DOCTYPE html><html><body g-scope='{"items":["a","b"]}'><ul><li g-for="item in items" g-text="item"></li></ul></body></html>`,
+    'body-template': '<!DOCTYPE html><html><body g-template="base"><p g-text="site"></p><small slot="footer">Footer</small></body></html>',
+    'nested-template': '<!DOCTYPE html><html><body g-template="docs"><p g-text="site"></p><small slot="footer">Footer</small></body></html>',
+    'missing-template': '<!DOCTYPE html><html><body g-template="missing"><p g-text="site"></p></body></html>',
+    'island': '<!DOCTYPE html><html><body><p g-text="site"></p><div g-client="visible"><span g-text="site"></span></div></body></html>',
+    'custom-directive': '<!DOCTYPE html><html><body><p g-shout="site"></p></body></html>',
+  } as Record<string, string>
+}))
+
+vi.mock('virtual:astrogonia/config', () => ({
+  options: { state: fixtures.state, templatesDir: 'templates', templateRoutes: [], serializeState: true, stateSources: {} },
+  dev: false,
+  directives: {},
+  loader: undefined,
+  report: undefined,
+  stateSources: undefined,
+  stateFiles: {},
+  catalogs: {},
+  styleSheets: { exports: {}, css: {}, directives: {} },
+  getCollection: undefined,
+  templates: fixtures.templates
+}))
+
+type SetupHook = (options: { config: { root: URL }, updateConfig: () => void, addMiddleware: () => void, command: string }) => Promise<void>
+type BuildDoneHook = (options: { dir: URL }) => Promise<void>
+
+async function renderWithMiddleware(html: string): Promise<string> {
+  const next: MiddlewareNext = async () => new Response(html, {
+    headers: { 'content-type': 'text/html' }
+  })
+  const context = { isPrerendered: false, url: new URL('http://localhost/'), params: {} }
+  const response = await onRequest(context as unknown as APIContext, next) as Response
+  return response.text()
+}
+
+describe('dev and build parity', () => {
+  let root: string
+  const built = new Map<string, string>()
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+    await mkdir(join(root, 'templates'))
+    for (const [name, html] of Object.entries(fixtures.templates)) {
+      await writeFile(join(root, 'templates', `${name}.html`), html)
+    }
+
+    // Registers g-shout with the gonia the integration renders with
+    await mkdir(join(root, 'node_modules'))
+    await symlink(join(process.cwd(), 'node_modules/gonia'), join(root, 'node_modules/gonia'))
+    await mkdir(join(root, 'src/directives'), { recursive: true })
+    await writeFile(join(root, 'src/directives/index.ts'), [
+      `import { directive } from 'gonia'`,
+      'const shout = ($element: Element, $eval: (expr: string) => unknown, $expr: string) => {',
+      '  $element.textContent = String($eval($expr)).toUpperCase()',
+      '}',
+      `shout.$inject = ['$element', '$eval', '$expr']`,
+      `directive('g-shout', shout)`
+    ].join('\n'))
+
+    const dist = join(root, 'dist')
+    for (const [name, html] of Object.entries(fixtures.pages)) {
+      await mkdir(join(dist, name), { recursive: true })
+      await writeFile(join(dist, name, 'index.html'), html)
+    }
+
+    const integration = astrogonia({ state: fixtures.state, templatesDir: 'templates' })
+    const setup = integration.hooks['astro:config:setup'] as unknown as SetupHook
+    const buildDone = integration.hooks['astro:build:done'] as unknown as BuildDoneHook
+
+    await setup({ config: { root: pathToFileURL(root + '/') }, updateConfig: vi.fn(), addMiddleware: vi.fn(), command: 'build' })
+    await buildDone({ dir: pathToFileURL(dist + '/') })
+
+    for (const name of Object.keys(fixtures.pages)) {
+      built.set(name, await readFile(join(dist, name, 'index.html'), 'utf-8'))
+    }
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  for (const name of Object.keys(fixtures.pages)) {
+    it(`renders ${name} identically`, async () => {
+      const rendered = await renderWithMiddleware(fixtures.pages[name])
+      expect(rendered).toBe(built.get(name))
+      expect(rendered).not.toBe(fixtures.pages[name])
+    })
+  }
+
+  it('renders custom directives from directivesDir in the build', () => {
+    expect(built.get('custom-directive')).toContain('<p g-shout="site">DOCS</p>')
+  })
+
+  it('fills named template slots', () => {
+    expect(built.get('body-template')).toContain('<main><p g-text="site">Docs</p></main><footer><small slot="footer">Footer</small></footer>')
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest'
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkDirective from 'remark-directive'
+import remarkRehype from 'remark-rehype'
+import rehypeStringify from 'rehype-stringify'
+import { VFile } from 'vfile'
+import { remarkDirectives, type RemarkDirectivesOptions } from './remark-directives.js'
+
+async function compile(markdown: string, frontmatter?: Record<string, unknown>, options?: RemarkDirectivesOptions) {
+  const file = new VFile({ value: markdown, data: frontmatter ? { astro: { frontmatter } } : {} })
+  const output = await unified()
+    .use(remarkParse)
+    .use(remarkDirective)
+    .use(remarkDirectives, options)
+    .use(remarkRehype, { allowDangerousHtml: true })
+    .use(rehypeStringify, { allowDangerousHtml: true })
+    .process(file)
+
+  return String(output)
+}
+
+describe('remarkDirectives', () => {
+  it('compiles text directives to spans with the fallback as content', async () => {
+    const html = await compile('Hello :g-text[guest]{expr="user.name"}!')
+
+    expect(html).toContain('<p>Hello <span g-text="user.name">guest</span>!</p>')
+  })
+
+  it('compiles container directives to wrapping elements', async () => {
+    const html = await compile(':::g-if{expr="loggedIn"}\nWelcome back.\n:::')
+
+    expect(html).toContain('<div g-if="loggedIn"><p>Welcome back.</p></div>')
+  })
+
+  it('compiles leaf directives and passes other attributes through', async () => {
+    const html = await compile('::g-html{expr="body" .prose #content}')
+
+    expect(html).toContain('<div class="prose" id="content" g-html="body"></div>')
+  })
+
+  it('nests directives', async () => {
+    const html = await compile(':::g-for{expr="item in items"}\n- :g-text{expr="item"}\n:::')
+
+    expect(html).toContain('<div g-for="item in items"><ul>\n<li><span g-text="item"></span></li>\n</ul></div>')
+  })
+
+  it('imports the directives used in the body', async () => {
+    const html = await compile(':g-text{expr="name"}\n\n:::g-if{expr="ok"}\nyes\n:::')
+
+    expect(html).toContain(`<script type="module">\nimport { text, cif } from 'gonia/directives';\n</script>`)
+  })
+
+  it('imports g-t from the translations module', async () => {
+    const html = await compile(':g-t{expr="nav.home"} :g-text{expr="name"}')
+
+    expect(html).toContain(`import { t } from 'astrogonia/client';\nimport { text } from 'gonia/directives';`)
+  })
+
+  it('merges body directives with frontmatter declarations', async () => {
+    const sources = new Map([['my-chart', './src/directives/my-chart.ts']])
+    const html = await compile('::my-chart{expr="data"}', { directive: ['g-model', 'my-chart'] }, { directiveSources: sources })
+
+    expect(html).toContain(`import { model } from 'gonia/directives';\nimport './src/directives/my-chart.ts';`)
+    expect(html).toContain('<div my-chart="data"></div>')
+    expect(html.match(/my-chart\.ts/g)).toHaveLength(1)
+  })
+
+  it('warns about frontmatter directives that match nothing', async () => {
+    const report = vi.fn()
+    const html = await compile('Text', { directive: ['g-text', 'missing-chart'] }, { report })
+
+    expect(report).toHaveBeenCalledTimes(1)
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      severity: 'warning',
+      code: 'unknown-directive',
+      directive: 'missing-chart'
+    }))
+    expect(html).toContain(`import { text } from 'gonia/directives';`)
+  })
+
+  it('writes frontmatter state into the page', async () => {
+    const html = await compile(':g-text{expr="user.name"}', { state: { user: { name: '</script>' } } })
+
+    expect(html).toContain('<script id="gonia-state" type="application/json">{"user":{"name":"\\u003c/script\\u003e"}}</script>')
+  })
+
+  it('places the content in the frontmatter template', async () => {
+    const html = await compile('# Intro\n\nText', { template: 'docs' })
+
+    expect(html).toContain(`import { template } from 'gonia/directives';`)
+    expect(html).toContain('<div g-template="docs"><h1>Intro</h1><p>Text</p></div>')
+  })
+
+  it('reports invalid frontmatter and keeps the valid keys', async () => {
+    const report = vi.fn()
+    const html = await compile('Text', { directive: [42], state: 'nope', template: 'docs' }, { report })
+
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'frontmatter',
+      message: expect.stringContaining('Invalid frontmatter "directive"')
+    }))
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'frontmatter',
+      message: expect.stringContaining('Invalid frontmatter "state"')
+    }))
+    expect(html).not.toContain('gonia-state')
+    expect(html).toContain('g-template="docs"')
+  })
+
+  it('leaves directives that are not Gonia directives alone', async () => {
+    const html = await compile(':::note\nText\n:::')
+
+    expect(html).not.toContain('<script')
+    expect(html).not.toContain('note=')
+  })
+})
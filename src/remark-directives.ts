@@ -1,24 +1,45 @@
 /**
- * Remark plugin to inject directive imports from frontmatter.
+ * Remark plugin to inject directive imports from frontmatter and compile
+ * inline directive syntax to Gonia attributes.
  *
  * @packageDocumentation
  */
 
-import type { Root } from 'mdast'
+import type { Root, Parent } from 'mdast'
+import type { ContainerDirective, LeafDirective, TextDirective } from 'mdast-util-directive'
 import type { VFile } from 'vfile'
+import { consoleReporter, type DiagnosticReporter } from './diagnostics.js'
+import { goniaFrontmatter, type GoniaFrontmatter } from './content.js'
+import { STATE_SCRIPT_ID, serializeState } from './state.js'
+import { BUILTIN_PREFIX, DEFAULT_DIRECTIVES_DIR, isDirectiveName } from './discovery.js'
 
 export interface RemarkDirectivesOptions {
   /**
-   * Glob patterns for custom directive source files.
-   * Maps directive names to their source modules.
+   * Maps custom directive names to their source modules. The integration
+   * fills this from the directives it discovers in `directivesDir`.
    */
   directiveSources?: Map<string, string>
+  /**
+   * Attribute prefix of custom directives, which inline directives can
+   * use without being in `directiveSources`.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+  /**
+   * Directory of custom directives, named in warnings.
+   * @defaultValue 'src/directives'
+   */
+  directivesDir?: string
+  /**
+   * Receives warnings about frontmatter entries that match no directive.
+   */
+  report?: DiagnosticReporter
 }
 
 /**
  * Built-in directive name to import mapping.
  */
-const BUILTIN_DIRECTIVES: Record<string, { exportName: string; module: string }> = {
+export const BUILTIN_DIRECTIVES: Record<string, { exportName: string; module: string }> = {
   'g-text': { exportName: 'text', module: 'gonia/directives' },
   'g-html': { exportName: 'html', module: 'gonia/directives' },
   'g-show': { exportName: 'show', module: 'gonia/directives' },
@@ -29,6 +50,8 @@ const BUILTIN_DIRECTIVES: Record<string, { exportName: string; module: string }>
   'g-on': { exportName: 'on', module: 'gonia/directives' },
   'g-for': { exportName: 'cfor', module: 'gonia/directives' },
   'g-if': { exportName: 'cif', module: 'gonia/directives' },
+  'g-t': { exportName: 't', module: 'astrogonia/client' },
+  'g-include': { exportName: 'include', module: 'astrogonia/client' },
   'text': { exportName: 'text', module: 'gonia/directives' },
   'html': { exportName: 'html', module: 'gonia/directives' },
   'show': { exportName: 'show', module: 'gonia/directives' },
@@ -39,6 +62,63 @@ const BUILTIN_DIRECTIVES: Record<string, { exportName: string; module: string }>
   'on': { exportName: 'on', module: 'gonia/directives' },
   'for': { exportName: 'cfor', module: 'gonia/directives' },
   'if': { exportName: 'cif', module: 'gonia/directives' },
+  't': { exportName: 't', module: 'astrogonia/client' },
+  'include': { exportName: 'include', module: 'astrogonia/client' },
+}
+
+type DirectiveNode = ContainerDirective | LeafDirective | TextDirective
+
+/**
+ * Attribute holding the directive expression in inline syntax.
+ */
+const EXPRESSION_ATTRIBUTE = 'expr'
+
+function isDirectiveNode(node: { type: string }): node is DirectiveNode {
+  return node.type === 'containerDirective'
+    || node.type === 'leafDirective'
+    || node.type === 'textDirective'
+}
+
+/**
+ * Compile remark-directive nodes named after Gonia directives to elements
+ * carrying the matching attribute.
+ *
+ * @remarks
+ * `:g-text[fallback]{expr="user.name"}` becomes
+ * `<span g-text="user.name">fallback</span>`, `::name` becomes a `<div>`
+ * and `:::name` a `<div>` wrapping its contents. Other attributes are
+ * passed through. Directives that are not Gonia's are left alone for
+ * other plugins.
+ *
+ * @returns The names of the directives compiled
+ */
+function compileDirectiveNodes(tree: Root, prefix: string, customSources?: Map<string, string>): string[] {
+  const used = new Set<string>()
+
+  const walk = (parent: Parent) => {
+    for (const child of parent.children) {
+      if (isDirectiveNode(child) && (isDirectiveName(child.name, prefix) || customSources?.has(child.name))) {
+        const { [EXPRESSION_ATTRIBUTE]: expression, ...attributes } = child.attributes ?? {}
+
+        child.data = {
+          ...child.data,
+          hName: child.type === 'textDirective' ? 'span' : 'div',
+          hProperties: {
+            ...attributes,
+            [child.name]: expression ?? ''
+          }
+        }
+        used.add(child.name)
+      }
+
+      if ('children' in child) {
+        walk(child)
+      }
+    }
+  }
+
+  walk(tree)
+  return [...used]
 }
 
 /**
@@ -48,15 +128,17 @@ function generateImports(
   directiveNames: string[],
   customSources?: Map<string, string>
 ): string {
-  const builtinImports: string[] = []
+  const builtinImports = new Map<string, string[]>()
   const customImports: string[] = []
 
   for (const name of directiveNames) {
     const builtin = BUILTIN_DIRECTIVES[name]
     if (builtin) {
-      if (!builtinImports.includes(builtin.exportName)) {
-        builtinImports.push(builtin.exportName)
+      const exportNames = builtinImports.get(builtin.module) ?? []
+      if (!exportNames.includes(builtin.exportName)) {
+        exportNames.push(builtin.exportName)
       }
+      builtinImports.set(builtin.module, exportNames)
       continue
     }
 
@@ -68,8 +150,8 @@ function generateImports(
 
   const statements: string[] = []
 
-  if (builtinImports.length > 0) {
-    statements.push(`import { ${builtinImports.join(', ')} } from 'gonia/directives';`)
+  for (const [module, exportNames] of builtinImports) {
+    statements.push(`import { ${exportNames.join(', ')} } from '${module}';`)
   }
 
   statements.push(...customImports)
@@ -78,53 +160,125 @@ function generateImports(
 }
 
 /**
- * Remark plugin that reads directive declarations from frontmatter
- * and injects the necessary imports.
+ * Validate the Gonia keys of a page's frontmatter.
+ *
+ * @remarks
+ * Invalid keys are reported and ignored; the valid ones are still used.
+ */
+function readFrontmatter(file: VFile, report: DiagnosticReporter): GoniaFrontmatter {
+  const frontmatter = file.data.astro?.frontmatter as Record<string, unknown> | undefined
+  if (!frontmatter) {
+    return {}
+  }
+
+  const result = goniaFrontmatter.safeParse(frontmatter)
+  if (result.success) {
+    return result.data
+  }
+
+  const invalid = new Set<unknown>()
+  for (const issue of result.error.issues) {
+    const key = issue.path[0]
+    invalid.add(key)
+    report({
+      severity: 'warning',
+      code: 'frontmatter',
+      message: `Invalid frontmatter "${issue.path.join('.')}": ${issue.message}`,
+      file: file.path
+    })
+  }
+
+  return goniaFrontmatter.parse(Object.fromEntries(
+    Object.entries(frontmatter).filter(([key]) => !invalid.has(key))
+  ))
+}
+
+/**
+ * Remark plugin that compiles inline directive syntax to Gonia attributes
+ * and injects the imports for the directives a page uses.
+ *
+ * @remarks
+ * Inline syntax needs `remark-directive` to run first; the integration
+ * adds both. Directives declared in frontmatter are imported as well, and
+ * the page `state` and `template` from frontmatter are validated with
+ * {@link goniaFrontmatter} and applied to the rendered page.
  *
  * @example
- * ```yaml
+ * ```md
  * ---
  * directive:
  *   - my-chart
- *   - g-model
+ * state:
+ *   user: { name: Ada }
+ * template: docs
  * ---
+ *
+ * Hello :g-text[guest]{expr="user.name"}!
+ *
+ * :::g-if{expr="loggedIn"}
+ * Welcome back.
+ * :::
  * ```
  */
 export function remarkDirectives(options: RemarkDirectivesOptions = {}) {
+  const report = options.report ?? consoleReporter
+
   return (tree: Root, file: VFile) => {
-    const frontmatter = file.data.astro?.frontmatter as Record<string, unknown> | undefined
+    const frontmatter = readFrontmatter(file, report)
+    const declared = [...frontmatter.directive ?? [], ...frontmatter.directives ?? []]
 
-    if (!frontmatter) {
-      return
+    for (const name of declared) {
+      if (!BUILTIN_DIRECTIVES[name] && !options.directiveSources?.has(name)) {
+        report({
+          severity: 'warning',
+          code: 'unknown-directive',
+          message: `Frontmatter declares directive "${name}", which is neither builtin nor found in ${options.directivesDir ?? DEFAULT_DIRECTIVES_DIR}/`,
+          file: file.path,
+          directive: name
+        })
+      }
     }
 
-    // Support both 'directive' and 'directives' keys
-    const directives = frontmatter.directive ?? frontmatter.directives
+    const directiveList = [...new Set([
+      ...declared,
+      ...compileDirectiveNodes(tree, options.prefix ?? BUILTIN_PREFIX, options.directiveSources),
+    ])]
 
-    if (!directives) {
-      return
+    // Place the content in the template, as `:::g-template` would
+    if (frontmatter.template) {
+      const wrapper: ContainerDirective = {
+        type: 'containerDirective',
+        name: 'g-template',
+        attributes: {},
+        children: tree.children as ContainerDirective['children'],
+        data: {
+          hName: 'div',
+          hProperties: { 'g-template': frontmatter.template }
+        }
+      }
+      tree.children = [wrapper]
+      directiveList.push('g-template')
     }
 
-    // Normalize to array
-    const directiveList: string[] = Array.isArray(directives)
-      ? directives
-      : [directives as string]
-
-    if (directiveList.length === 0) {
-      return
+    // The renderer merges this over the integration and loader state
+    if (frontmatter.state) {
+      tree.children.unshift({
+        type: 'html',
+        value: `<script id="${STATE_SCRIPT_ID}" type="application/json">${serializeState(frontmatter.state)}</script>`
+      })
     }
 
-    const imports = generateImports(directiveList, options.directiveSources)
-
-    if (!imports) {
-      return
-    }
+    const imports = directiveList.length > 0
+      ? generateImports(directiveList, options.directiveSources)
+      : ''
 
     // Inject as raw HTML script at the start of the document
-    tree.children.unshift({
-      type: 'html',
-      value: `<script type="module">\n${imports}\n</script>`
-    })
+    if (imports) {
+      tree.children.unshift({
+        type: 'html',
+        value: `<script type="module">\n${imports}\n</script>`
+      })
+    }
   }
 }
 
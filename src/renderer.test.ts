@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMemoryRegistry } from 'gonia'
+import { createRenderer } from './renderer.js'
+
+function renderPage(html: string, state: Record<string, unknown> = {}) {
+  const renderer = createRenderer({
+    state,
+    templates: createMemoryRegistry({ base: '<main><slot></slot></main>' }),
+    serializeState: false,
+    report: vi.fn()
+  })
+  return renderer.render(html)
+}
+
+describe('renderer', () => {
+  it('renders directives in the head', async () => {
+    const html = await renderPage(
+      '<!DOCTYPE html><html><head><meta charset="utf-8"><title g-text="title"></title><link rel="canonical" g-bind:href="url"></head><body></body></html>',
+      { title: 'Intro', url: 'https://example.com/intro/' }
+    )
+
+    expect(html).toBe('<!DOCTYPE html><html><head><meta charset="utf-8"><title g-text="title">Intro</title><link rel="canonical" g-bind:href="url" href="https://example.com/intro/"></head><body></body></html>')
+  })
+
+  it('renders custom directives with a custom prefix', async () => {
+    const greet = function greet($element: Element, $expr: string) {
+      $element.textContent = `Hello, ${$expr}`
+    }
+    greet.$inject = ['$element', '$expr']
+    const renderer = createRenderer({
+      directives: { greet },
+      prefix: 'x-',
+      templates: createMemoryRegistry({}),
+      serializeState: false,
+      report: vi.fn()
+    })
+
+    expect(await renderer.render('<!DOCTYPE html><html><head><title x-greet="Ada"></title></head><body><p x-greet="Grace"></p><p g-text="1 + 1"></p></body></html>'))
+      .toBe('<!DOCTYPE html><html><head><title x-greet="Ada">Hello, Ada</title></head><body><p x-greet="Grace">Hello, Grace</p><p g-text="1 + 1">2</p></body></html>')
+  })
+
+  it('renders directives on the body element itself', async () => {
+    const html = await renderPage(
+      '<!DOCTYPE html><html><body class="page" g-class="{ dark: theme === \'dark\' }"><p g-text="theme"></p></body></html>',
+      { theme: 'dark' }
+    )
+
+    expect(html).toBe(`<!DOCTYPE html><html><body class="page dark" g-class="{ dark: theme === 'dark' }"><p g-text="theme">dark</p></body></html>`)
+  })
+
+  it('hides the body with g-show', async () => {
+    const html = await renderPage('<!DOCTYPE html><html><body g-show="visible"><p>Hi</p></body></html>', { visible: false })
+
+    expect(html).toMatch(/^<!DOCTYPE html><html><body g-show="visible" style="display: ?none;?"><p>Hi<\/p><\/body><\/html>$/)
+  })
+
+  it('renders directives on the html element with the body in scope', async () => {
+    const html = await renderPage(
+      '<!DOCTYPE html><html g-bind:class="theme"><head><title g-text="theme"></title></head><body><p g-text="theme"></p></body></html>',
+      { theme: 'dark' }
+    )
+
+    expect(html).toBe('<!DOCTYPE html><html g-bind:class="theme" class="dark"><head><title g-text="theme">dark</title></head><body><p g-text="theme">dark</p></body></html>')
+  })
+
+  it('keeps the rest of the document as written', async () => {
+    const source = [
+      '<!doctype html>',
+      '<html lang=en>',
+      '  <head>',
+      '    <meta charset=utf-8 />',
+      '    <link rel=stylesheet href=/a.css>',
+      '  </head>',
+      `  <body data-page='home'>`,
+      '    <p g-text="name"></p>',
+      '  </body>',
+      '</html>',
+      '<!-- trailing -->',
+    ].join('\n')
+
+    expect(await renderPage(source, { name: 'Ada' })).toBe(source.replace('<p g-text="name"></p>', '<p g-text="name">Ada</p>'))
+  })
+
+  it('renders a body without an end tag', async () => {
+    const html = await renderPage('<!DOCTYPE html><html><body><p g-text="name"></p>', { name: 'Ada' })
+
+    expect(html).toBe('<!DOCTYPE html><html><body><p g-text="name">Ada</p>')
+  })
+
+    it('drops an applied body g-template and keeps g-scope', async () => {
+    const html = await renderPage(`<!DOCTYPE html><html><body g-scope='{"name":"Ada"}' g-template="base"><p g-text="name"></p></body></html>`)
+
+    expect(html).toBe(`<!DOCTYPE html><html><body g-scope="{&quot;name&quot;:&quot;Ada&quot;}"><main><p g-text="name">Ada</p></main></body></html>`)
+  })
+
+  describe('partials', () => {
+    const templates = createMemoryRegistry({
+      'cards/post': '<article><h2 g-text="title"></h2><slot></slot></article>',
+      'loop': '<p g-include="loop"></p>'
+    })
+
+    function renderIncludes(html: string, state: Record<string, unknown>, report = vi.fn()) {
+      const renderer = createRenderer({ state, templates, serializeState: false, report })
+      return renderer.render(html)
+    }
+
+    it('renders partials with their own state', async () => {
+      const html = await renderIncludes('<h1 g-text="title"></h1><div g-include="cards/post with { title: post.title }"><p>Body</p></div>', {
+        title: 'Blog',
+        post: { title: 'Hello' }
+      })
+
+      expect(html).toBe('<h1 g-text="title">Blog</h1><div g-include="cards/post with { title: post.title }"><article><h2 g-text="title">Hello</h2><p>Body</p></article></div>')
+    })
+
+    it('renders a partial per g-for item without touching the enclosing state', async () => {
+      const html = await renderIncludes('<h1 g-text="title"></h1><section g-for="post in posts" g-include="cards/post with { title: post.title }"></section>', {
+        title: 'Blog',
+        posts: [{ title: 'A' }, { title: 'B' }]
+      })
+
+      expect(html).toContain('<h2 g-text="title" data-g-processed="">A</h2>')
+      expect(html).toContain('<h2 g-text="title" data-g-processed="">B</h2>')
+      expect(html).toContain('<h1 g-text="title">Blog</h1>')
+    })
+
+    it('reports include cycles', async () => {
+      const report = vi.fn()
+      const page = '<div g-include="loop"></div>'
+
+      expect(await renderIncludes(page, {}, report)).toBe(page)
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({
+        severity: 'error',
+        code: 'include',
+        message: expect.stringContaining('Include cycle detected: loop -> loop')
+      }))
+    })
+  })
+
+  describe('template pages', () => {
+    const templates = createMemoryRegistry({
+      'layouts/base': '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"></head><body class="site"><main><slot></slot></main><footer><slot name="footer"></slot></footer></body></html>',
+      'card': '<article><slot></slot></article>'
+    })
+
+    function renderShell(html: string, report = vi.fn()) {
+      const renderer = createRenderer({ templates, templatePages: true, serializeState: false, report })
+      return renderer.render(html)
+    }
+
+    it('builds the document of a page shell from its template', async () => {
+      const html = await renderShell(`<!DOCTYPE html><title>Docs</title><script type="module" src="/entry.js"></script><div g-template="layouts/base" g-scope='{"name":"Ada"}'><p g-text="name"></p><small slot="footer">Footer</small></div>`)
+
+      expect(html).toBe('<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>Docs</title><script type="module" src="/entry.js"></script></head><body class="site" g-scope="{&quot;name&quot;:&quot;Ada&quot;}"><main><p g-text="name">Ada</p></main><footer><small slot="footer">Footer</small></footer></body></html>')
+    })
+
+    it('places fragment templates in a minimal document', async () => {
+      const html = await renderShell('<section g-template="card"><p>Body</p></section>')
+
+      expect(html).toBe('<!DOCTYPE html><html><head></head><body><article><p>Body</p></article></body></html>')
+    })
+
+    it('leaves pages with their own document or several roots alone', async () => {
+      const documentPage = '<!DOCTYPE html><html><body><div g-template="card"><p>Body</p></div></body></html>'
+      const fragment = '<div g-template="card"></div><p>After</p>'
+
+      expect(await renderShell(documentPage)).toBe('<!DOCTYPE html><html><body><div g-template="card"><article><p>Body</p></article></div></body></html>')
+      expect(await renderShell(fragment)).toBe('<div g-template="card"><article><slot></slot></article></div><p>After</p>')
+    })
+
+    it('reports a missing template and leaves the page as written', async () => {
+      const report = vi.fn()
+      const page = '<!DOCTYPE html><main g-template="missing"></main>'
+
+      expect(await renderShell(page, report)).toBe(page)
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({ severity: 'error', code: 'template', attribute: 'g-template="missing"' }))
+    })
+  })
+})
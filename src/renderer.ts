@@ -0,0 +1,575 @@
+/**
+ * Shared Gonia renderer used by both the build pass and the middleware.
+ *
+ * @packageDocumentation
+ */
+
+import { render, registerDirective, registerService, type DirectiveRegistry } from 'gonia/server'
+import { directive, directives, type TemplateRegistry } from 'gonia'
+import { applyLayout, createIncludeRegistry, createTemplatePageDocument, expandIncludes, readTemplatePage } from './layouts.js'
+import { createStateScript, injectStateScript, readStateScript, removeStateScript } from './state.js'
+import { consoleReporter, locate, type DiagnosticReporter } from './diagnostics.js'
+import { markIslands } from './island-markup.js'
+import { parseDocument, readImpliedBody, serializeAttributes, spliceSource, type DocumentElement, type DocumentElements, type DocumentTag, type SourceAttribute, type SourceRange } from './document.js'
+import { registerRequestServices, runWithServices, type RequestServices } from './services.js'
+import type { AnyDirective } from './authoring.js'
+import { BUILTIN_PREFIX, isDirectiveName, mayContainDirectives } from './discovery.js'
+import { createI18nScript, removeI18nScript, t, type I18n } from './i18n.js'
+import { include, INCLUDE_ATTR } from './includes.js'
+import { Window } from 'happy-dom'
+
+export interface RendererOptions {
+  /**
+   * Initial state for SSR.
+   */
+  state?: Record<string, unknown>
+  /**
+   * Custom directives to register alongside the builtins.
+   */
+  directives?: Record<string, AnyDirective>
+  /**
+   * Attribute prefix of custom directives.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+  /**
+   * Registry used to resolve `g-template` names.
+   */
+  templates: TemplateRegistry
+  /**
+   * Build the document of page shells from their `g-template`.
+   * @defaultValue false
+   */
+  templatePages?: boolean
+  /**
+   * Write the merged SSR state into rendered documents for hydration.
+   * @defaultValue true
+   */
+  serializeState?: boolean
+  /**
+   * Receives problems found while rendering.
+   * @defaultValue logs through `console`
+   */
+  report?: DiagnosticReporter
+}
+
+export interface ProcessOptions {
+  /**
+   * Registry used to resolve `g-template` and `g-include` names, whose
+   * templates have their own includes expanded.
+   */
+  templates: TemplateRegistry
+  /**
+   * Write the merged SSR state into rendered documents.
+   */
+  serializeState?: boolean
+  /**
+   * Receives problems found while rendering.
+   */
+  report: DiagnosticReporter
+  /**
+   * File or route being rendered, used in diagnostics.
+   */
+  source?: string
+  /**
+   * Attribute prefix of custom directives.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+  /**
+   * Build the document of page shells from their `g-template`.
+   */
+  templatePages?: boolean
+}
+
+export interface PageContext {
+  /**
+   * State for this render only, merged over the initial state.
+   */
+  state?: Record<string, unknown>
+  /**
+   * File or route being rendered, used in diagnostics.
+   */
+  source?: string
+  /**
+   * The request the page is rendered for, injected into directives as
+   * `$request`, `$url`, `$params` and `$locals`.
+   */
+  services?: RequestServices
+  /**
+   * Whether the page's route is written as a template page. Other
+   * responses, such as fragments, aren't wrapped in a template document
+   * even with `templatePages`.
+   * @defaultValue true
+   */
+  templatePage?: boolean
+}
+
+export interface Renderer {
+  /**
+   * Directive registry used for every render.
+   */
+  registry: DirectiveRegistry
+  /**
+   * Initial state every render starts from.
+   */
+  state: Record<string, unknown>
+  /**
+   * Attribute prefix of custom directives.
+   */
+  prefix: string
+  /**
+   * Render Gonia directives in a full HTML document or fragment.
+   *
+   * @remarks
+   * Render errors are reported and leave the page unchanged.
+   *
+   * @param html - The page or fragment to render
+   * @param page - Per-render state and source
+   */
+  render(html: string, page?: PageContext): Promise<string>
+}
+
+/**
+ * Create a directive registry with the builtin directives and any
+ * custom directives from the integration options.
+ *
+ * @remarks
+ * Gonia's server only prefixes registry entries with `g-`, so custom
+ * directives with another prefix are registered globally under their
+ * full attribute name instead, as directive modules register themselves.
+ */
+export function createDirectiveRegistry(custom?: Record<string, AnyDirective>, prefix = BUILTIN_PREFIX): DirectiveRegistry {
+  const registry: DirectiveRegistry = new Map()
+
+  const builtins: Array<[string, AnyDirective]> = [
+    ['text', directives.text],
+    ['show', directives.show],
+    ['class', directives.cclass],
+    ['for', directives.cfor],
+    ['if', directives.cif],
+    ['html', directives.html],
+    ['model', directives.model],
+    ['on', directives.on],
+    ['template', directives.template],
+    ['slot', directives.slot],
+    ['t', t],
+  ]
+
+  for (const [name, directive] of builtins) {
+    registerDirective(registry, name, directive)
+  }
+
+  // Registry entries can't ask for their own scope
+  directive(INCLUDE_ATTR, include, { scope: true })
+
+  if (custom) {
+    for (const [name, fn] of Object.entries(custom)) {
+      if (prefix === BUILTIN_PREFIX) {
+        registerDirective(registry, name, fn)
+      } else {
+        directive(prefix + name, fn)
+      }
+    }
+  }
+
+  return registry
+}
+
+/**
+ * Attributes of document elements handled before rendering, which are
+ * kept as written rather than passed to Gonia.
+ */
+const PRE_RENDERED_ATTRIBUTES = new Set(['g-scope', 'g-template'])
+
+const STAND_IN_PREFIX = 'astrogonia-'
+
+/**
+ * Whether an attribute of a document element is rendered by Gonia.
+ */
+export function isRenderedAttribute(attr: SourceAttribute, prefix = BUILTIN_PREFIX): boolean {
+  return isDirectiveName(attr.name, prefix) && !PRE_RENDERED_ATTRIBUTES.has(attr.name)
+}
+
+/**
+ * Whether some markup is a full document rather than a fragment.
+ */
+export function isFullDocument(html: string): boolean {
+  return /^\s*<!DOCTYPE|^\s*<html/i.test(html)
+}
+
+/**
+ * Whether a document's `<head>` uses directives, and so is rendered.
+ */
+export function hasHeadDirectives(html: string, head: DocumentElement, prefix = BUILTIN_PREFIX): boolean {
+  return head.attrs.some(attr => isRenderedAttribute(attr, prefix))
+    || mayContainDirectives(html.slice(head.content.start, head.content.end), prefix)
+}
+
+/**
+ * Read the state in `g-scope` JSON on `<html>` and `<body>`, in that
+ * order. Invalid JSON is reported and skipped.
+ */
+export function readDocumentScopes(
+  html: string,
+  elements: DocumentElements,
+  report: DiagnosticReporter,
+  source?: string
+): Record<string, unknown> {
+  let state: Record<string, unknown> = {}
+
+  for (const el of [elements.html, elements.body]) {
+    const scope = el?.attrs.find(attr => attr.name === 'g-scope')
+    if (!el || !scope?.value) {
+      continue
+    }
+
+    try {
+      state = { ...state, ...JSON.parse(scope.value) }
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'scope-json',
+        message: `Invalid JSON in <${el.tag}> g-scope, rendering without it`,
+        file: source,
+        directive: 'g-scope',
+        attribute: scope.source,
+        ...locate(html, scope.offset),
+        cause: err
+      })
+    }
+  }
+
+  return state
+}
+
+/**
+ * Markup for a document element as a custom element Gonia can render
+ * inside a fragment.
+ *
+ * @remarks
+ * Gonia renders fragments, so `<html>`, `<head>` and `<body>` are stood in
+ * for by `<astrogonia-html>` and friends. Nesting them keeps the scoping
+ * of the document, and their rendered attributes and content are written
+ * back to the real elements afterwards.
+ */
+function standIn(el: DocumentElement, content: string): string {
+  const tag = STAND_IN_PREFIX + el.tag
+  const attrs = el.attrs.filter(attr => !PRE_RENDERED_ATTRIBUTES.has(attr.name))
+  return `<${tag}${serializeAttributes(attrs)}>${content}</${tag}>`
+}
+
+interface StandInResult {
+  attrs: { name: string, value: string }[]
+  content: string
+}
+
+/**
+ * Read the rendered attributes and content of each stand-in element.
+ */
+function readStandIns(rendered: string): Map<DocumentTag, StandInResult> {
+  const window = new Window()
+  try {
+    const container = window.document.createElement('div')
+    container.innerHTML = rendered
+
+    const results = new Map<DocumentTag, StandInResult>()
+    for (const tag of ['html', 'head', 'body'] as const) {
+      const el = container.querySelector(STAND_IN_PREFIX + tag)
+      if (el) {
+        results.set(tag, {
+          attrs: Array.from(el.attributes).map(attr => ({ name: attr.name, value: attr.value ?? '' })),
+          content: el.innerHTML
+        })
+      }
+    }
+    return results
+  } finally {
+    window.close()
+  }
+}
+
+/**
+ * Combine the source attributes of a document element with its rendered
+ * ones, keeping the source order.
+ */
+function mergeAttributes(
+  original: SourceAttribute[],
+  rendered: { name: string, value: string }[],
+  dropped: string[]
+): { name: string, value: string }[] {
+  const renderedValues = new Map(rendered.map(attr => [attr.name, attr.value]))
+  const result: { name: string, value: string }[] = []
+
+  for (const attr of original) {
+    if (dropped.includes(attr.name)) {
+      continue
+    }
+
+    if (PRE_RENDERED_ATTRIBUTES.has(attr.name)) {
+      result.push({ name: attr.name, value: attr.value })
+    } else if (renderedValues.has(attr.name)) {
+      result.push({ name: attr.name, value: renderedValues.get(attr.name)! })
+    }
+  }
+
+  // Attributes added by directives, such as class from g-class
+  for (const [name, value] of renderedValues) {
+    if (!original.some(attr => attr.name === name)) {
+      result.push({ name, value })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Expand the `g-include` partials of a page.
+ *
+ * @returns The markup as written when a partial can't be included
+ */
+async function expandPageIncludes(html: string, options: ProcessOptions): Promise<string> {
+  try {
+    return await expandIncludes(html, options.templates)
+  } catch (err) {
+    options.report({
+      severity: 'error',
+      code: 'include',
+      message: `Could not expand ${INCLUDE_ATTR}: ${err instanceof Error ? err.message : String(err)}`,
+      file: options.source,
+      directive: INCLUDE_ATTR,
+      cause: err
+    })
+    return html
+  }
+}
+
+/**
+ * Process a page or fragment with the given state and directive registry.
+ *
+ * @remarks
+ * State is merged from the initial state, a `<script id="gonia-state">`
+ * block and JSON in `g-scope` attributes on `<html>` and `<body>`, in that
+ * order. A body `g-template` is expanded into its layout and `g-include`
+ * elements into their partials before rendering.
+ * Directives on `<html>`, `<head>` and `<body>` and inside the head are
+ * rendered along with the body; the rest of the document is left exactly
+ * as written.
+ *
+ * Island roots (`g-client`) are annotated with the directives and state
+ * they use, for the client islands loader.
+ *
+ * With `serializeState`, the merged state is written back into the
+ * document as a single state script so the client hydrates against
+ * exactly the state the page was rendered with.
+ *
+ * With `templatePages`, a page shell (a root element with `g-template`
+ * and no `<html>` or `<body>` of its own) first becomes the document of
+ * its template, see {@link createTemplatePageDocument}.
+ *
+ * Invalid state JSON and unusable templates are reported and skipped, so
+ * the page still renders with what is available.
+ */
+export async function processHtmlString(
+  html: string,
+  initialState: Record<string, unknown>,
+  registry: DirectiveRegistry,
+  options: ProcessOptions
+): Promise<string> {
+  const { report, source, prefix } = options
+
+  const page = options.templatePages ? readTemplatePage(html) : undefined
+  if (page) {
+    try {
+      html = await createTemplatePageDocument(page, options.templates)
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'template',
+        message: `Could not apply template "${page.template.value}": ${err instanceof Error ? err.message : String(err)}`,
+        file: source,
+        directive: 'g-template',
+        attribute: page.template.source,
+        ...locate(html, page.template.offset),
+        cause: err
+      })
+    }
+  }
+
+  const stateScript = readStateScript(html)
+  let state: Record<string, unknown> = { ...initialState }
+
+  if (stateScript !== undefined) {
+    try {
+      state = { ...state, ...JSON.parse(stateScript) }
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'state-json',
+        message: 'Invalid JSON in <script id="gonia-state">, rendering without it',
+        file: source,
+        ...locate(html, html.indexOf(stateScript)),
+        cause: err
+      })
+    }
+  }
+
+  if (!isFullDocument(html)) {
+    const content = await expandPageIncludes(html, options)
+    return render(markIslands(content, state, report, source, prefix), state, registry)
+  }
+
+  // Without a <body> tag, the content after the head is the body
+  const elements = parseDocument(html)
+  const body = elements.body ?? readImpliedBody(html)
+  if (!body) {
+    return html
+  }
+  const implied = !elements.body
+
+  state = { ...state, ...readDocumentScopes(html, elements, report, source) }
+
+  // Apply a body g-template layout, including layouts it extends.
+  // A missing or cyclic template leaves the body content as-is.
+  const bodyContent = html.slice(body.content.start, body.content.end)
+  const template = body.attrs.find(attr => attr.name === 'g-template')
+  let content = bodyContent
+  let hasTemplate = false
+  if (template?.value) {
+    try {
+      content = await applyLayout(template.value, bodyContent, options.templates)
+      hasTemplate = true
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'template',
+        message: `Could not apply template "${template.value}": ${err instanceof Error ? err.message : String(err)}`,
+        file: source,
+        directive: 'g-template',
+        attribute: template.source,
+        ...locate(html, template.offset),
+        cause: err
+      })
+    }
+  }
+
+  content = markIslands(await expandPageIncludes(content, options), state, report, source, prefix)
+
+  // <head> and <html> are only rendered when they use directives, so
+  // documents without them keep their head exactly as written
+  const head = elements.head && hasHeadDirectives(html, elements.head, prefix) ? elements.head : undefined
+  const root = elements.html?.attrs.some(attr => isRenderedAttribute(attr, prefix)) ? elements.html : undefined
+
+  let fragment = (head ? standIn(head, html.slice(head.content.start, head.content.end)) : '') + standIn(body, content)
+  if (root) {
+    fragment = standIn(root, fragment)
+  }
+
+  const output = readStandIns(await render(fragment, state, registry))
+
+  const replacements: { range: SourceRange, text: string }[] = []
+  for (const el of [root, head, body]) {
+    const result = el && output.get(el.tag)
+    if (!el || !result) {
+      continue
+    }
+
+    const attrs = mergeAttributes(el.attrs, result.attrs, hasTemplate && el === body ? ['g-template'] : [])
+    const unchanged = attrs.length === el.attrs.length
+      && attrs.every((attr, i) => attr.name === el.attrs[i].name && attr.value === el.attrs[i].value)
+    if (!unchanged) {
+      replacements.push({ range: el.startTag, text: `<${el.tag}${serializeAttributes(attrs)}>` })
+    }
+
+    if (el !== root) {
+      replacements.push({ range: el.content, text: result.content })
+    }
+  }
+
+  const rendered = spliceSource(html, replacements)
+  if (!options.serializeState) {
+    return rendered
+  }
+  if (!implied) {
+    return injectStateScript(rendered, state)
+  }
+
+  // Without </body>, the state script ends the document
+  const withoutExisting = removeStateScript(rendered)
+  const end = withoutExisting.toLowerCase().lastIndexOf('</html>')
+  const insertAt = end === -1 ? withoutExisting.length : end
+  return withoutExisting.slice(0, insertAt) + createStateScript(state) + withoutExisting.slice(insertAt)
+}
+
+/**
+ * Write the messages a page used before `</body>`, if it used any.
+ *
+ * @remarks
+ * Any existing messages script is replaced, as with the state script.
+ */
+function injectI18nScript(html: string, i18n: I18n): string {
+  if (Object.keys(i18n.used()).length === 0) {
+    return html
+  }
+
+  const withoutExisting = removeI18nScript(html)
+  const insertAt = withoutExisting.toLowerCase().lastIndexOf('</body>')
+  if (insertAt === -1) {
+    return html
+  }
+
+  return withoutExisting.slice(0, insertAt) + createI18nScript(i18n) + withoutExisting.slice(insertAt)
+}
+
+/**
+ * Create a renderer for the given options.
+ *
+ * @remarks
+ * The build pass and the middleware each create one renderer from the
+ * same integration options, so a page renders identically in both. Each
+ * renderer expands a partial once, see {@link createIncludeRegistry}.
+ */
+export function createRenderer(options: RendererOptions): Renderer {
+  const prefix = options.prefix ?? BUILTIN_PREFIX
+  const templates = createIncludeRegistry(options.templates)
+  const registry = createDirectiveRegistry(options.directives, prefix)
+  const state = options.state ?? {}
+  const report = options.report ?? consoleReporter
+  registerRequestServices()
+
+  return {
+    registry,
+    state,
+    prefix,
+    async render(html, page = {}) {
+      registerService('$templates', templates)
+
+      try {
+        // Each render sees only its own request through the services
+        const rendered = await runWithServices(page.services, () => processHtmlString(html, { ...state, ...page.state }, registry, {
+          templates,
+          serializeState: options.serializeState ?? true,
+          report,
+          source: page.source,
+          prefix,
+          templatePages: options.templatePages && (page.templatePage ?? true)
+        }))
+
+        // Ship the messages the page used, for g-t in the browser
+        const i18n = page.services?.i18n
+        return i18n && (options.serializeState ?? true) && isFullDocument(html)
+          ? injectI18nScript(rendered, i18n)
+          : rendered
+      } catch (err) {
+        report({
+          severity: 'error',
+          code: 'render',
+          message: `SSR failed: ${err instanceof Error ? err.message : String(err)}`,
+          file: page.source,
+          cause: err
+        })
+        return html
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { createMemoryRegistry } from 'gonia'
+import { createRenderer } from './renderer.js'
+import { createStaticServices } from './services.js'
+
+async function route($element: Element, $url: URL, $params: Record<string, string | undefined>, $locals: Record<string, unknown>) {
+  // Let the other render run in between
+  await new Promise(resolve => setTimeout(resolve, 10))
+  $element.textContent = `${$url.pathname} ${$params.slug} ${String($locals.user)}`
+}
+route.$inject = ['$element', '$url', '$params', '$locals']
+
+async function agent($element: Element, $request: Request) {
+  $element.textContent = `${$request.method} ${$request.headers.get('user-agent')}`
+}
+agent.$inject = ['$element', '$request']
+
+function createTestRenderer() {
+  return createRenderer({
+    directives: { route, agent },
+    templates: createMemoryRegistry({}),
+    serializeState: false
+  })
+}
+
+describe('request services', () => {
+  it('injects the request into directives', async () => {
+    const renderer = createTestRenderer()
+    const url = new URL('https://example.com/blog/hello/')
+    const html = await renderer.render('<p g-route></p><p g-agent></p>', {
+      services: {
+        request: new Request(url, { headers: { 'user-agent': 'test' } }),
+        url,
+        params: { slug: 'hello' },
+        locals: { user: 'ada' }
+      }
+    })
+
+    expect(html).toBe('<p g-route="">/blog/hello/ hello ada</p><p g-agent="">GET test</p>')
+  })
+
+  it('keeps concurrent renders apart', async () => {
+    const renderer = createTestRenderer()
+    const [first, second] = await Promise.all([
+      renderer.render('<p g-route></p>', { services: createStaticServices('/blog/one/', { slug: 'one' }) }),
+      renderer.render('<p g-route></p>', { services: createStaticServices('/blog/two/', { slug: 'two' }) })
+    ])
+
+    expect(first).toBe('<p g-route="">/blog/one/ one undefined</p>')
+    expect(second).toBe('<p g-route="">/blog/two/ two undefined</p>')
+  })
+
+  it('snapshots pages rendered ahead of time against the site', () => {
+    const services = createStaticServices('/docs/', {}, 'https://example.com')
+
+    expect(services.url.href).toBe('https://example.com/docs/')
+    expect(services.request.method).toBe('GET')
+    expect(services.locals).toEqual({})
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Request-scoped services for server-rendered directives.
+ *
+ * @packageDocumentation
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { registerService } from 'gonia/server'
+import type { I18n } from './i18n.js'
+
+/**
+ * The request a page is rendered for, as injected into directives.
+ */
+export interface RequestServices {
+  /**
+   * Injected as `$request`.
+   */
+  request: Request
+  /**
+   * Injected as `$url`.
+   */
+  url: URL
+  /**
+   * Route params, injected as `$params`.
+   */
+  params: Record<string, string | undefined>
+  /**
+   * Astro's `locals`, injected as `$locals`.
+   */
+  locals: Record<string, unknown>
+  /**
+   * Translations for the page's locale, injected as `$i18n`.
+   */
+  i18n?: I18n
+  /**
+   * The page's locale, injected as `$locale`.
+   */
+  locale?: Intl.Locale
+}
+
+/**
+ * Service names keyed by the {@link RequestServices} property they expose.
+ */
+export const REQUEST_SERVICE_NAMES: Record<keyof RequestServices, string> = {
+  request: '$request',
+  url: '$url',
+  params: '$params',
+  locals: '$locals',
+  i18n: '$i18n',
+  locale: '$locale'
+}
+
+const store = new AsyncLocalStorage<RequestServices>()
+
+let registered = false
+
+/**
+ * A stand-in for one request service that forwards to the value of the
+ * render currently running.
+ *
+ * @remarks
+ * Gonia's services are global, so the registered value can't change per
+ * render without concurrent requests seeing each other's. The stand-in
+ * looks the value up in the async context of the render instead. Methods
+ * are bound to the real value, so `$url.toString()` and
+ * `$request.headers.get()` work.
+ */
+function forward(key: keyof RequestServices): object {
+  const current = () => store.getStore()?.[key] as object | undefined
+
+  return new Proxy({}, {
+    get(_, property) {
+      const target = current()
+      if (!target) {
+        return undefined
+      }
+      const value: unknown = Reflect.get(target, property)
+      return typeof value === 'function' ? value.bind(target) : value
+    },
+    set(_, property, value) {
+      const target = current()
+      return target ? Reflect.set(target, property, value) : false
+    },
+    has(_, property) {
+      const target = current()
+      return target ? Reflect.has(target, property) : false
+    },
+    ownKeys() {
+      const target = current()
+      return target ? Reflect.ownKeys(target) : []
+    },
+    getOwnPropertyDescriptor(_, property) {
+      const target = current()
+      const descriptor = target && Reflect.getOwnPropertyDescriptor(target, property)
+      return descriptor && { ...descriptor, configurable: true }
+    }
+  })
+}
+
+/**
+ * Register `$request`, `$url`, `$params`, `$locals`, `$i18n` and
+ * `$locale` with Gonia.
+ *
+ * @remarks
+ * Safe to call more than once. The services resolve to the values passed
+ * to {@link runWithServices} for the render in progress.
+ */
+export function registerRequestServices(): void {
+  if (registered) {
+    return
+  }
+  registered = true
+
+  for (const [key, name] of Object.entries(REQUEST_SERVICE_NAMES)) {
+    registerService(name, forward(key as keyof RequestServices))
+  }
+}
+
+/**
+ * Run a render with the request services it should see.
+ */
+export function runWithServices<T>(services: RequestServices | undefined, render: () => T): T {
+  return services ? store.run(services, render) : render()
+}
+
+/**
+ * Request services for a page rendered ahead of time, as a `GET` of its
+ * URL with no headers and empty `locals`.
+ *
+ * @param site - Origin of the site, Astro's `site` option
+ */
+export function createStaticServices(
+  pathname: string,
+  params: Record<string, string | undefined>,
+  site = 'http://localhost/'
+): RequestServices {
+  const url = new URL(pathname, site)
+  return {
+    request: new Request(url),
+    url,
+    params,
+    locals: {}
+  }
+}
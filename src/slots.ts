@@ -0,0 +1,70 @@
+/**
+ * Slot transclusion shared by build-time layouts and `g-include`.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Slot content keyed by slot name, `default` for unnamed content.
+ */
+export type SlotContent = Map<string, string>
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Split an element's children into named and default slot content.
+ *
+ * @remarks
+ * Mirrors the runtime `g-template` directive: children with a `slot`
+ * attribute fill the slot of that name, other elements and non-blank
+ * text fill the default slot.
+ */
+export function extractSlotContent(el: Element): SlotContent {
+  const slots: SlotContent = new Map()
+  const defaultParts: string[] = []
+
+  for (const child of Array.from(el.childNodes)) {
+    if (child.nodeType === 1) {
+      const element = child as Element
+      const slotName = element.getAttribute('slot')
+      if (slotName !== null) {
+        slots.set(slotName, (slots.get(slotName) ?? '') + element.outerHTML)
+      } else {
+        defaultParts.push(element.outerHTML)
+      }
+    } else if (child.nodeType === 3) {
+      const text = child.textContent ?? ''
+      if (text.trim()) {
+        defaultParts.push(escapeText(text))
+      }
+    }
+  }
+
+  if (defaultParts.length > 0) {
+    slots.set('default', defaultParts.join(''))
+  }
+
+  return slots
+}
+
+/**
+ * Replace `<slot>` elements with matching content.
+ *
+ * @remarks
+ * Slots without content keep their fallback children, as they do at
+ * runtime. Slots are collected before any content is inserted, so slots
+ * inside the inserted content are left alone.
+ */
+export function fillSlots(root: Element, slots: SlotContent): void {
+  for (const slot of Array.from(root.querySelectorAll('slot'))) {
+    const content = slots.get(slot.getAttribute('name') ?? 'default')
+    if (content !== undefined) {
+      slot.outerHTML = content
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { stringify } from 'devalue'
+import { createDataStoreReader, loadStateSources, parseStateFile, serializableStateSources } from './state-sources.js'
+
+describe('state sources', () => {
+  it('parses JSON and YAML files', () => {
+    expect(parseStateFile('site.json', '{"name":"Docs"}')).toEqual({ name: 'Docs' })
+    expect(parseStateFile('site.yaml', 'name: Docs\nlinks:\n  - Home\n')).toEqual({ name: 'Docs', links: ['Home'] })
+    expect(parseStateFile('site.YML', 'name: Docs')).toEqual({ name: 'Docs' })
+    expect(() => parseStateFile('site.toml', 'name = "Docs"')).toThrow('Unsupported state file site.toml')
+  })
+
+  it('loads files, collections and functions by name', async () => {
+    const data = await loadStateSources({
+      site: 'src/data/site.json',
+      products: { collection: 'products' },
+      stock: async () => ({ total: 3 })
+    }, {
+      readFile: path => ({ path }),
+      getCollection: async name => [{ id: 'tea', collection: name, data: { price: 4 } }],
+      report: vi.fn()
+    })
+
+    expect(data).toEqual({
+      site: { path: 'src/data/site.json' },
+      products: [{ id: 'tea', collection: 'products', data: { price: 4 } }],
+      stock: { total: 3 }
+    })
+  })
+
+  it('reports a source that fails and loads the rest', async () => {
+    const report = vi.fn()
+    const data = await loadStateSources({
+      site: 'src/data/missing.json',
+      nav: () => ['Home']
+    }, {
+      readFile: () => {
+        throw new Error('ENOENT')
+      },
+      getCollection: async () => [],
+      report
+    })
+
+    expect(data).toEqual({ nav: ['Home'] })
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      severity: 'error',
+      code: 'state-source',
+      message: 'Could not load state source "site": ENOENT',
+      file: 'src/data/missing.json'
+    }))
+  })
+
+  it('leaves function sources out of the serializable ones', () => {
+    expect(serializableStateSources({
+      site: 'site.json',
+      products: { collection: 'products' },
+      stock: () => 3
+    })).toEqual({ site: 'site.json', products: { collection: 'products' } })
+  })
+
+  it('reads collections from the Astro data store', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'astrogonia-'))
+    try {
+      const file = join(dir, 'data-store.json')
+      const entries = new Map([['tea', { id: 'tea', data: { price: 4 }, body: '# Tea', digest: 'abc' }]])
+      await writeFile(file, stringify(new Map([['products', entries]])))
+
+      const getCollection = createDataStoreReader(file)
+
+      expect(await getCollection('products')).toEqual([{ id: 'tea', collection: 'products', data: { price: 4 } }])
+      await expect(getCollection('posts')).rejects.toThrow('No content collection named "posts"')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
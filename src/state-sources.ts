@@ -0,0 +1,168 @@
+/**
+ * Named state loaded from files, content collections and functions.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile } from 'node:fs/promises'
+import { extname, resolve } from 'node:path'
+import { parse as parseDevalue } from 'devalue'
+import { load as parseYaml } from 'js-yaml'
+import type { DiagnosticReporter } from './diagnostics.js'
+
+/**
+ * State key the sources are exposed under, as in `$data.products`.
+ */
+export const DATA_KEY = '$data'
+
+/**
+ * Where the value of a named state source comes from.
+ *
+ * - A path to a `.json`, `.yaml` or `.yml` file, relative to the project
+ *   root
+ * - `{ collection }`, the entries of an Astro content collection
+ * - A function returning the value, called once per build and per request
+ *   in dev
+ */
+export type StateSource =
+  | string
+  | { collection: string }
+  | (() => unknown)
+
+/**
+ * State sources keyed by the name they are exposed under.
+ */
+export type StateSources = Record<string, StateSource>
+
+/**
+ * A content collection entry as exposed in state.
+ */
+export interface CollectionEntry {
+  id: string
+  collection: string
+  data: unknown
+}
+
+export interface StateSourceContext {
+  /**
+   * Read the value of a file source, given its path as declared.
+   */
+  readFile: (path: string) => unknown
+  /**
+   * Read the entries of a content collection.
+   */
+  getCollection: (name: string) => Promise<CollectionEntry[]>
+  /**
+   * Receives sources that fail to load.
+   */
+  report: DiagnosticReporter
+}
+
+/**
+ * Parse the content of a JSON or YAML state file.
+ */
+export function parseStateFile(path: string, content: string): unknown {
+  const extension = extname(path).toLowerCase()
+
+  if (extension === '.json') {
+    return JSON.parse(content)
+  }
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(content)
+  }
+
+  throw new Error(`[astrogonia] Unsupported state file ${path}, expected .json, .yaml or .yml`)
+}
+
+/**
+ * Read and parse a JSON or YAML state file relative to the project root.
+ */
+export async function readStateFile(root: string, path: string): Promise<unknown> {
+  return parseStateFile(path, await readFile(resolve(root, path), 'utf-8'))
+}
+
+/**
+ * The file paths among some state sources, as declared.
+ */
+export function stateSourceFiles(sources: StateSources = {}): string[] {
+  return Object.values(sources).filter((source): source is string => typeof source === 'string')
+}
+
+/**
+ * The sources that can be serialized into the virtual config module:
+ * files and collections.
+ */
+export function serializableStateSources(sources: StateSources = {}): Record<string, string | { collection: string }> {
+  return Object.fromEntries(
+    Object.entries(sources).filter((entry): entry is [string, string | { collection: string }] => typeof entry[1] !== 'function')
+  )
+}
+
+/**
+ * Keep the parts of a collection entry that templates render with.
+ */
+export function toCollectionEntry(entry: { id: string, collection?: string, data: unknown }, collection: string): CollectionEntry {
+  return { id: entry.id, collection, data: entry.data }
+}
+
+/**
+ * Read collections from the data store Astro writes during a build.
+ *
+ * @remarks
+ * Content collections are only importable inside Vite, so the build pass
+ * reads the entries Astro stored under its `cacheDir` instead.
+ */
+export function createDataStoreReader(file: string): (name: string) => Promise<CollectionEntry[]> {
+  let store: Promise<Map<string, Map<string, { id: string, data: unknown }>>> | undefined
+
+  return async (name) => {
+    store ??= readFile(file, 'utf-8').then(content => parseDevalue(content) as Map<string, Map<string, { id: string, data: unknown }>>)
+
+    const entries = (await store).get(name)
+    if (!entries) {
+      throw new Error(`[astrogonia] No content collection named "${name}"`)
+    }
+
+    return [...entries.values()].map(entry => toCollectionEntry(entry, name))
+  }
+}
+
+/**
+ * Load every state source.
+ *
+ * @remarks
+ * A source that fails to load is reported and left out, so pages still
+ * render with the rest.
+ *
+ * @returns The values keyed by source name, for {@link DATA_KEY}
+ */
+export async function loadStateSources(
+  sources: StateSources,
+  context: StateSourceContext
+): Promise<Record<string, unknown>> {
+  const entries = await Promise.all(Object.entries(sources).map(async ([name, source]) => {
+    try {
+      if (typeof source === 'function') {
+        return [name, await source()] as const
+      }
+
+      if (typeof source === 'string') {
+        return [name, await context.readFile(source)] as const
+      }
+
+      return [name, await context.getCollection(source.collection)] as const
+    } catch (err) {
+      context.report({
+        severity: 'error',
+        code: 'state-source',
+        message: `Could not load state source "${name}": ${err instanceof Error ? err.message : String(err)}`,
+        file: typeof source === 'string' ? source : undefined,
+        cause: err
+      })
+      return undefined
+    }
+  }))
+
+  return Object.fromEntries(entries.filter(entry => entry !== undefined))
+}
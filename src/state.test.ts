@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { injectStateScript, readStateScript, serializeState } from './state.js'
+
+describe('state', () => {
+  it('escapes JSON for embedding in a script element', () => {
+    const json = serializeState({ html: '</script><!-- & -->', separators: '\u2028\u2029' })
+
+    expect(json).not.toContain('</script>')
+    expect(json).not.toContain('<!--')
+    expect(json).toContain('\\u2028\\u2029')
+    expect(JSON.parse(json)).toEqual({ html: '</script><!-- & -->', separators: '\u2028\u2029' })
+  })
+
+  it('replaces an existing state script with a single merged one', () => {
+    const html = '<html><head><script id="gonia-state" type="application/json">{"a":1}</script></head><body><p></p></body></html>'
+    const result = injectStateScript(html, { a: 1, b: 2 })
+
+    expect(result).toBe('<html><head></head><body><p></p><script id="gonia-state" type="application/json">{"a":1,"b":2}</script></body></html>')
+    expect(readStateScript(result)).toBe('{"a":1,"b":2}')
+  })
+
+  it('leaves documents without a body unchanged', () => {
+    expect(injectStateScript('<p></p>', { a: 1 })).toBe('<p></p>')
+  })
+})
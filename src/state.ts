@@ -0,0 +1,67 @@
+/**
+ * Reading and writing the serialized page state.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Id of the `<script type="application/json">` block holding page state.
+ */
+export const STATE_SCRIPT_ID = 'gonia-state'
+
+const STATE_SCRIPT_PATTERN = /<script id="gonia-state" type="application\/json">([\s\S]*?)<\/script>/
+
+/**
+ * Read the JSON source of the state script in a page, if any.
+ */
+export function readStateScript(html: string): string | undefined {
+  return html.match(STATE_SCRIPT_PATTERN)?.[1]
+}
+
+/**
+ * Serialize state as JSON that is safe to embed in a `<script>` element.
+ *
+ * @remarks
+ * Escapes `<`, `>` and `&` so the content can't close the script element
+ * or open a comment, and the line separators that older engines reject
+ * in string literals.
+ */
+export function serializeState(state: Record<string, unknown>): string {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+/**
+ * Write state into a page as a single state script.
+ *
+ * @remarks
+ * Any existing state script is replaced, and the new one is placed at the
+ * end of the body. Pages without a body are returned unchanged.
+ */
+export function injectStateScript(html: string, state: Record<string, unknown>): string {
+  const withoutExisting = removeStateScript(html)
+  const insertAt = withoutExisting.toLowerCase().lastIndexOf('</body>')
+  if (insertAt === -1) {
+    return html
+  }
+
+  return withoutExisting.slice(0, insertAt) + createStateScript(state) + withoutExisting.slice(insertAt)
+}
+
+/**
+ * Markup for a state script holding `state`.
+ */
+export function createStateScript(state: Record<string, unknown>): string {
+  return `<script id="${STATE_SCRIPT_ID}" type="application/json">${serializeState(state)}</script>`
+}
+
+/**
+ * Remove the state script from some markup.
+ */
+export function removeStateScript(html: string): string {
+  return html.replace(STATE_SCRIPT_PATTERN, () => '')
+}
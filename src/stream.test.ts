@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMemoryRegistry } from 'gonia'
+import { createRenderer } from './renderer.js'
+import { renderStream, type StreamOptions } from './stream.js'
+
+function createSource() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    }
+  })
+  const encoder = new TextEncoder()
+
+  return {
+    stream,
+    push: (html: string) => controller.enqueue(encoder.encode(html)),
+    close: () => controller.close()
+  }
+}
+
+function streamPage(options: Partial<StreamOptions> = {}) {
+  const source = createSource()
+  const renderer = createRenderer({
+    state: { site: 'Docs' },
+    templates: createMemoryRegistry({ base: '<main><slot></slot></main>' }),
+    serializeState: true,
+    report: vi.fn()
+  })
+  const loadState = vi.fn(async () => ({ name: 'Ada' }))
+  const output = renderStream(source.stream, {
+    renderer,
+    loadState,
+    serializeState: true,
+    report: vi.fn(),
+    ...options
+  })
+  const reader = output.getReader()
+  const decoder = new TextDecoder()
+
+  return {
+    ...source,
+    renderer,
+    loadState,
+    async read() {
+      const { value } = await reader.read()
+      return value ? decoder.decode(value) : undefined
+    },
+    async rest() {
+      let text = ''
+      for (;;) {
+        const { value, done } = await reader.read()
+        if (done) {
+          return text
+        }
+        text += decoder.decode(value)
+      }
+    }
+  }
+}
+
+describe('renderStream', () => {
+  it('sends the head before the body arrives', async () => {
+    const page = streamPage()
+    page.push('<!DOCTYPE html><html><head><title>Docs</title></head><bo')
+    page.push('dy class="page">')
+
+    expect(await page.read()).toBe('<!DOCTYPE html><html><head><title>Docs</title></head><body class="page">')
+  })
+
+  it('renders each Gonia root once it is complete', async () => {
+    const page = streamPage()
+    page.push('<!DOCTYPE html><html><head></head><body>')
+    await page.read()
+
+    page.push('<p g-text="name"></p><div><span g-text="site">')
+    expect(await page.read()).toBe('<p g-text="name">Ada</p><div>')
+
+    page.push('</span></div></body></html>')
+    page.close()
+    expect(await page.rest()).toBe('<span g-text="site">Docs</span></div><script id="gonia-state" type="application/json">{"site":"Docs","name":"Ada"}</script></body></html>')
+  })
+
+  it('streams the content of a wrapper element before it closes', async () => {
+    const page = streamPage()
+    page.push('<!DOCTYPE html><html><head></head><body>')
+    await page.read()
+
+    page.push('<div class="page"><main><p g-text="name"></p><section>One</section><p>')
+    expect(await page.read()).toBe('<div class="page"><main><p g-text="name">Ada</p><section>One</section><p>')
+
+    page.push('Two</p><ul><li g-text="site"></li><li>')
+    expect(await page.read()).toBe('Two</p><ul><li g-text="site">Docs</li><li>')
+
+    page.push('Three</li></ul></main></div></body></html>')
+    page.close()
+    expect(await page.rest()).toBe('Three</li></ul></main></div><script id="gonia-state" type="application/json">{"site":"Docs","name":"Ada"}</script></body></html>')
+  })
+
+  it('expands segment templates in place with template pages on', async () => {
+    const renderer = createRenderer({
+      templates: createMemoryRegistry({ card: '<article><slot></slot></article>' }),
+      templatePages: true,
+      serializeState: false,
+      report: vi.fn()
+    })
+    const page = streamPage({ renderer, serializeState: false })
+    page.push('<!DOCTYPE html><html><head></head><body><main><section g-template="card"><p>Body</p></section>')
+    page.push('</main></body></html>')
+    page.close()
+
+    expect(await page.rest()).toBe('<!DOCTYPE html><html><head></head><body><main><section g-template="card"><article><p>Body</p></article></section></main></body></html>')
+  })
+
+  it('holds back wrappers that use directives', async () => {
+    const page = streamPage()
+    page.push('<!DOCTYPE html><html><head></head><body>')
+    await page.read()
+
+    page.push('<p>Intro</p><div g-scope="{ title: \'Docs\' }"><h1 g-text="title"></h1>')
+    expect(await page.read()).toBe('<p>Intro</p>')
+
+    page.push('</div></body></html>')
+    page.close()
+    expect(await page.rest()).toContain('<div g-scope="{ title: \'Docs\' }"><h1 g-text="title">Docs</h1></div>')
+  })
+
+  it('streams pages without directives as written', async () => {
+    const page = streamPage()
+    page.push('<!DOCTYPE html><html><head></head><body>')
+    page.push('<p>One &amp; only</p><p>Two</p>')
+    page.push('</body></html>')
+    page.close()
+
+    expect(await page.rest()).toBe('<!DOCTYPE html><html><head></head><body><p>One &amp; only</p><p>Two</p></body></html>')
+    expect(page.loadState).not.toHaveBeenCalled()
+  })
+
+  it('merges body g-scope and state scripts into the serialized state', async () => {
+    const page = streamPage()
+    page.push('<!DOCTYPE html><html><head></head><body g-scope=\'{"name":"Grace"}\'>')
+    page.push('<script id="gonia-state" type="application/json">{"count":1}</script><p g-text="count"></p>')
+    page.push('<p g-text="name"></p></body></html>')
+    page.close()
+
+    expect(await page.rest()).toBe('<!DOCTYPE html><html><head></head><body g-scope=\'{"name":"Grace"}\'><p g-text="count">1</p><p g-text="name">Grace</p><script id="gonia-state" type="application/json">{"site":"Docs","name":"Grace","count":1}</script></body></html>')
+  })
+
+  it('renders the body as a whole for a body g-template after sending the head', async () => {
+    const page = streamPage()
+    const html = '<!DOCTYPE html><html><head><title>Docs</title></head><body g-template="base"><h1 g-text="name"></h1></body></html>'
+    page.push(html.slice(0, html.indexOf('<h1')))
+
+    expect(await page.read()).toBe('<!DOCTYPE html><html><head><title>Docs</title></head>')
+
+    page.push(html.slice(html.indexOf('<h1')))
+    page.close()
+
+    const buffered = await page.renderer.render(html, { state: { name: 'Ada' } })
+    expect(await page.rest()).toBe(buffered.slice('<!DOCTYPE html><html><head><title>Docs</title></head>'.length))
+  })
+
+  it('sends styles in the head and before the roots that use them', async () => {
+    const page = streamPage({
+      styles: async html => html.includes('<head>') ? '<style>body{}</style>' : html.includes('g-text') ? '<style>p{}</style>' : ''
+    })
+    page.push('<!DOCTYPE html><html><head></head><body>')
+    expect(await page.read()).toBe('<!DOCTYPE html><html><head><style>body{}</style></head><body>')
+
+    page.push('<p>Intro</p><p g-text="name"></p></body></html>')
+    page.close()
+    expect(await page.rest()).toBe('<p>Intro</p><style>p{}</style><p g-text="name">Ada</p><script id="gonia-state" type="application/json">{"site":"Docs","name":"Ada"}</script></body></html>')
+  })
+
+  it('renders documents with head directives in full', async () => {
+    const page = streamPage()
+    const html = '<!DOCTYPE html><html><head><title g-text="name"></title></head><body><p g-text="site"></p></body></html>'
+    page.push(html)
+    page.close()
+
+    expect(await page.rest()).toBe(await page.renderer.render(html, { state: { name: 'Ada' } }))
+  })
+
+  it('serves the page unrendered when the state fails to load', async () => {
+    const page = streamPage({ loadState: async () => undefined })
+    const html = '<!DOCTYPE html><html><head></head><body><p g-text="name"></p></body></html>'
+    page.push(html)
+    page.close()
+
+    expect(await page.rest()).toBe(html)
+  })
+})
@@ -0,0 +1,344 @@
+/**
+ * Streaming render of HTML responses for the middleware.
+ *
+ * @packageDocumentation
+ */
+
+import { parseFragment, type DefaultTreeAdapterMap } from 'parse5'
+import { locate, type DiagnosticReporter } from './diagnostics.js'
+import { parseDocument, type DocumentElements } from './document.js'
+import { hasHeadDirectives, isFullDocument, isRenderedAttribute, readDocumentScopes, type Renderer } from './renderer.js'
+import { isDirectiveName, mayContainDirectives } from './discovery.js'
+import { createStateScript, readStateScript, removeStateScript } from './state.js'
+import type { RequestServices } from './services.js'
+import { createI18nScript } from './i18n.js'
+import { insertStyles } from './styles.js'
+
+export interface StreamOptions {
+  renderer: Renderer
+  /**
+   * Load the state of the page. Called at most once, when the first
+   * directive arrives.
+   *
+   * @returns The state, or `undefined` when loading failed and the page
+   * should be served unrendered
+   */
+  loadState: () => Promise<Record<string, unknown> | undefined>
+  /**
+   * Write the merged SSR state into the page.
+   */
+  serializeState: boolean
+  /**
+   * Receives problems found while rendering.
+   */
+  report: DiagnosticReporter
+  /**
+   * Route being rendered, used in diagnostics.
+   */
+  source?: string
+  /**
+   * The request the page is rendered for.
+   */
+  services?: RequestServices
+  /**
+   * Whether the route is written as a template page, see
+   * `PageContext.templatePage`.
+   * @defaultValue true
+   */
+  templatePage?: boolean
+  /**
+   * Style markup for the sheets some HTML uses that haven't been sent yet.
+   */
+  styles?: (html: string) => Promise<string>
+}
+
+/**
+ * Whether the document up to the body start tag can be sent as written.
+ */
+function isHeadUntouched(html: string, elements: DocumentElements, bodyStart: number, prefix: string): boolean {
+  return isFullDocument(html)
+    && readStateScript(html.slice(0, bodyStart)) === undefined
+    && !elements.html?.attrs.some(attr => isRenderedAttribute(attr, prefix))
+    && !(elements.head && hasHeadDirectives(html, elements.head, prefix))
+}
+
+type FragmentNode = DefaultTreeAdapterMap['childNode']
+type FragmentElement = DefaultTreeAdapterMap['element']
+
+/**
+ * Elements whose content can't be rendered apart from them: raw text,
+ * table parts, templates and foreign content.
+ */
+const OPAQUE_ELEMENTS = new Set([
+  'script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'plaintext',
+  'template', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'colgroup', 'select', 'pre', 'svg', 'math'
+])
+
+interface BodySegment {
+  html: string
+  /**
+   * Whether the segment is sent as written, such as the tags of a wrapper
+   * element around Gonia roots.
+   */
+  raw: boolean
+}
+
+/**
+ * Whether the content of an element can be sent apart from its tags,
+ * because the element uses no directives.
+ */
+function isWrapper(node: FragmentNode, prefix: string): node is FragmentElement {
+  return 'tagName' in node
+    && node.sourceCodeLocation?.startTag !== undefined
+    && !OPAQUE_ELEMENTS.has(node.tagName)
+    && !node.attrs.some(attr => isDirectiveName(attr.name, prefix))
+}
+
+/**
+ * Split the body content that has fully arrived into segments.
+ *
+ * @remarks
+ * Every top-level node but the last, which may still be incomplete, is a
+ * segment of its own. When the last node is a wrapper, its start tag is
+ * sent and its children are split the same way, so a page whose content
+ * sits in a single `<div>` or `<main>` still streams. End tags of the
+ * wrappers, which a fragment doesn't parse, are sent as written.
+ *
+ * @param final - Whether the content is complete, so no node is held back
+ * @returns The segments, and the length of the content they cover
+ */
+function splitBody(content: string, prefix: string, final: boolean): { segments: BodySegment[], length: number } {
+  const segments: BodySegment[] = []
+  let position = 0
+
+  const raw = (end: number) => {
+    if (end > position) {
+      segments.push({ html: content.slice(position, end), raw: true })
+      position = end
+    }
+  }
+
+  const split = (nodes: FragmentNode[]) => {
+    for (const [index, node] of nodes.entries()) {
+      const location = node.sourceCodeLocation
+      if (!location) {
+        continue
+      }
+
+      raw(location.startOffset)
+      if (final || index < nodes.length - 1) {
+        segments.push({ html: content.slice(location.startOffset, location.endOffset), raw: false })
+        position = location.endOffset
+      } else if (isWrapper(node, prefix)) {
+        raw(node.sourceCodeLocation!.startTag!.endOffset)
+        split(node.childNodes)
+      }
+    }
+  }
+
+  split(parseFragment(content, { sourceCodeLocationInfo: true }).childNodes)
+  if (final) {
+    raw(content.length)
+  }
+
+  return { segments, length: position }
+}
+
+async function* renderChunks(input: ReadableStream<Uint8Array>, options: StreamOptions): AsyncGenerator<string> {
+  const { renderer, report, source, services } = options
+  const { prefix } = renderer
+  const reader = input.getReader()
+  const decoder = new TextDecoder()
+
+  let phase: 'head' | 'body' | 'document' = 'head'
+  let buffer = ''
+  // Length of the document sent before falling back to a buffered render
+  let sent = 0
+  let scopeState: Record<string, unknown> = {}
+  let scriptState: Record<string, unknown> = {}
+  let hasDirectives = false
+  let hasStateScript = false
+  let loaded: Promise<Record<string, unknown> | undefined> | undefined
+
+  const loadState = () => loaded ??= options.loadState()
+  const styles = async (html: string) => await options.styles?.(html) ?? ''
+
+  const processSegment = async (segment: string): Promise<string> => {
+    const script = readStateScript(segment)
+    if (script !== undefined) {
+      hasStateScript = true
+      try {
+        scriptState = { ...scriptState, ...JSON.parse(script) }
+      } catch (err) {
+        report({
+          severity: 'error',
+          code: 'state-json',
+          message: 'Invalid JSON in <script id="gonia-state">, rendering without it',
+          file: source,
+          ...locate(segment, segment.indexOf(script)),
+          cause: err
+        })
+      }
+
+      // Written back with the merged state before </body>
+      if (options.serializeState) {
+        segment = removeStateScript(segment)
+      }
+    }
+
+    if (!mayContainDirectives(segment, prefix)) {
+      return segment
+    }
+
+    hasDirectives = true
+    const pageState = await loadState()
+    if (!pageState) {
+      return segment
+    }
+
+    // Styles a segment needs go right before it
+    // Body segments are never page shells
+    return await styles(segment) + await renderer.render(segment, {
+      state: { ...pageState, ...scriptState, ...scopeState },
+      source,
+      services,
+      templatePage: false
+    })
+  }
+
+  const processSegments = async (segments: BodySegment[]): Promise<string> => {
+    let output = ''
+    for (const segment of segments) {
+      output += segment.raw ? segment.html : await processSegment(segment.html)
+    }
+    return output
+  }
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      if (phase === 'head') {
+        const elements = parseDocument(buffer)
+        const body = elements.body
+
+        if (body && isHeadUntouched(buffer, elements, body.startTag.start, prefix)) {
+          if (body.attrs.some(attr => isRenderedAttribute(attr, prefix) || attr.name === 'g-template')) {
+            // The body is rendered as a whole, but the head can go now
+            phase = 'document'
+            sent = body.startTag.start
+            const head = buffer.slice(0, sent)
+            yield insertStyles(head, await styles(head))
+          } else {
+            phase = 'body'
+            scopeState = readDocumentScopes(buffer, elements, report, source)
+            hasDirectives = mayContainDirectives(buffer.slice(0, body.startTag.end), prefix)
+            const head = buffer.slice(0, body.startTag.end)
+            yield insertStyles(head, await styles(head))
+            buffer = buffer.slice(body.startTag.end)
+          }
+        } else if (body || (buffer.trimStart().length >= '<!doctype'.length && !isFullDocument(buffer))) {
+          phase = 'document'
+        }
+      }
+
+      if (done) {
+        break
+      }
+
+      if (phase === 'body') {
+        const end = buffer.toLowerCase().indexOf('</body')
+        const { segments, length } = splitBody(end === -1 ? buffer : buffer.slice(0, end), prefix, false)
+        if (length > 0) {
+          buffer = buffer.slice(length)
+          yield await processSegments(segments)
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (phase === 'body') {
+    const end = buffer.toLowerCase().lastIndexOf('</body')
+    let output = await processSegments(splitBody(end === -1 ? buffer : buffer.slice(0, end), prefix, true).segments)
+
+    const pageState = hasDirectives ? await loadState() : undefined
+    if (options.serializeState && end !== -1 && (pageState || hasStateScript)) {
+      output += createStateScript(pageState
+        ? { ...renderer.state, ...pageState, ...scriptState, ...scopeState }
+        : scriptState)
+    }
+
+    const i18n = services?.i18n
+    if (options.serializeState && end !== -1 && i18n && Object.keys(i18n.used()).length > 0) {
+      output += createI18nScript(i18n)
+    }
+
+    yield output + (end === -1 ? '' : buffer.slice(end))
+    return
+  }
+
+  // Documents that can't be streamed render the same way as a buffered
+  // response. The part already sent is never changed by rendering.
+  if (!mayContainDirectives(buffer, prefix)) {
+    yield buffer.slice(sent)
+    return
+  }
+
+  const pageState = await loadState()
+  if (!pageState) {
+    yield buffer.slice(sent)
+    return
+  }
+
+  const rendered = await renderer.render(buffer, { state: pageState, source, services, templatePage: options.templatePage })
+  const markup = await styles(buffer)
+  yield sent === 0 ? insertStyles(rendered, markup) : markup + rendered.slice(sent)
+}
+
+/**
+ * Render Gonia directives in an HTML stream as it arrives.
+ *
+ * @remarks
+ * Everything up to the `<body>` start tag is sent as soon as it has
+ * arrived, unless the head or the `<html>` element use directives. The
+ * body is then processed one top-level node at a time: nodes without
+ * directives are sent as written, and each Gonia root is rendered once it
+ * is complete. Wrapper elements without directives are opened rather than
+ * held back, so only the innermost incomplete node waits, and pages
+ * without Gonia roots stream through.
+ *
+ * Pages whose body is rendered as a whole, such as a body `g-template`
+ * layout, are buffered from the `<body>` start tag and rendered like a
+ * buffered response. The state script is written before `</body>` with
+ * the same state a buffered render would use.
+ *
+ * Entry styles go into the head, and the styles of the templates and
+ * directives a Gonia root uses are sent right before it.
+ */
+export function renderStream(input: ReadableStream<Uint8Array>, options: StreamOptions): ReadableStream<Uint8Array> {
+  const chunks = renderChunks(input, options)
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        const { value, done } = await chunks.next()
+        if (done) {
+          controller.close()
+          return
+        }
+        if (value) {
+          controller.enqueue(encoder.encode(value))
+          return
+        }
+      }
+    },
+    async cancel(reason) {
+      await chunks.return(undefined)
+      await input.cancel(reason)
+    }
+  })
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { compileStyleSheets, type StyleCompiler } from './style-compiler.js'
+
+describe('style compiler', () => {
+  it('compiles the entry and the styles next to templates and directives', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-styles-'))
+    try {
+      await mkdir(join(root, 'src/styles'), { recursive: true })
+      await mkdir(join(root, 'src/templates/layouts'), { recursive: true })
+      await mkdir(join(root, 'src/directives'), { recursive: true })
+      for (const file of ['src/styles/index.ts', 'src/templates/card.css.ts', 'src/templates/layouts/base.css.ts', 'src/directives/chart.css.ts']) {
+        await writeFile(join(root, file), '')
+      }
+
+      const report = vi.fn()
+      const compile: StyleCompiler = async (file) => {
+        const name = file.slice(root.length)
+        if (name.endsWith('base.css.ts')) {
+          throw new Error('Unexpected token')
+        }
+        return {
+          exports: { className: name, recipe: () => '' },
+          css: `/* ${name} */`
+        }
+      }
+
+      const compiled = await compileStyleSheets(root, {
+        entry: 'src/styles/index.ts',
+        templatesDir: 'src/templates',
+        directiveSources: new Map([['g-chart', '/src/directives/chart.ts'], ['chart', '/src/directives/chart.ts'], ['g-tabs', '/src/directives/tabs.ts']]),
+        cacheDir: join(root, 'cache'),
+        report,
+        compile
+      })
+
+      expect(compiled).toEqual({
+        exports: {
+          className: '/src/styles/index.ts',
+          card: { className: '/src/templates/card.css.ts' }
+        },
+        css: {
+          'entry': '/* /src/styles/index.ts */',
+          'template:card': '/* /src/templates/card.css.ts */',
+          'directive:/src/directives/chart.ts': '/* /src/directives/chart.css.ts */'
+        },
+        directives: { 'g-chart': '/src/directives/chart.ts', 'chart': '/src/directives/chart.ts' }
+      })
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({ severity: 'error', code: 'style-compile', file: 'src/templates/layouts/base.css.ts' }))
+      expect(report).toHaveBeenCalledWith(expect.objectContaining({ severity: 'warning', code: 'style-export', file: 'src/templates/card.css.ts' }))
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('exposes preloaded styles instead of compiling the entry', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-styles-'))
+    try {
+      await mkdir(join(root, 'src/styles'), { recursive: true })
+      await writeFile(join(root, 'src/styles/index.ts'), '')
+      const compile = vi.fn<StyleCompiler>()
+
+      const compiled = await compileStyleSheets(root, {
+        entry: 'src/styles/index.ts',
+        styles: { page: 'page_1' },
+        templatesDir: 'src/templates',
+        directiveSources: new Map(),
+        cacheDir: join(root, 'cache'),
+        report: vi.fn(),
+        compile
+      })
+
+      expect(compiled).toEqual({ exports: { page: 'page_1' }, css: {}, directives: {} })
+      expect(compile).not.toHaveBeenCalled()
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,276 @@
+/**
+ * Compiling vanilla-extract `.css.ts` files and writing their sheets, for
+ * the integration alone: the middleware must not pull in the optional
+ * `@vanilla-extract/integration` package.
+ *
+ * @packageDocumentation
+ */
+
+import { access, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { glob } from 'tinyglobby'
+import { hashContent } from './cache.js'
+import type { DiagnosticReporter } from './diagnostics.js'
+import { ENTRY_SHEET, type StyleSheets } from './styles.js'
+
+export interface VanillaExtractOptions {
+  /**
+   * Module whose exports become the top level of `$styles`, along with the
+   * CSS of every `.css.ts` file it imports (relative to project root).
+   * @defaultValue 'src/styles/index.ts'
+   */
+  entry?: string
+  /**
+   * Class names to expose instead of compiling `entry`, such as a
+   * `.css.ts` module imported in the Astro config. Their CSS is left to
+   * the project to include.
+   */
+  styles?: Record<string, unknown>
+}
+
+/**
+ * A compiled `.css.ts` module.
+ */
+export interface CompiledStyle {
+  /**
+   * The module's exports, usually class names.
+   */
+  exports: Record<string, unknown>
+  /**
+   * CSS of the module and the `.css.ts` files it imports.
+   */
+  css: string
+}
+
+/**
+ * Compiles a `.css.ts` module from its absolute path.
+ */
+export type StyleCompiler = (file: string) => Promise<CompiledStyle>
+
+export interface StyleSheetsOptions {
+  /**
+   * Entry module (relative to project root).
+   */
+  entry: string
+  /**
+   * Class names to expose instead of compiling the entry.
+   */
+  styles?: Record<string, unknown>
+  /**
+   * Directory containing Gonia templates (relative to project root).
+   */
+  templatesDir: string
+  /**
+   * Directive modules keyed by name, as discovered in the project.
+   */
+  directiveSources: Map<string, string>
+  /**
+   * Directory compiled modules are written to for evaluation.
+   */
+  cacheDir: string
+  /**
+   * Receives files that fail to compile.
+   */
+  report: DiagnosticReporter
+  /**
+   * Compiler for `.css.ts` modules.
+   * @defaultValue `@vanilla-extract/integration`, when installed
+   */
+  compile?: StyleCompiler
+}
+
+/**
+ * What `@vanilla-extract/integration` provides for compiling outside Vite.
+ */
+interface VanillaExtractIntegration {
+  compile(options: { filePath: string, cwd: string }): Promise<{ source: string }>
+  processVanillaFile(options: {
+    source: string
+    filePath: string
+    serializeVirtualCssPath?: (file: { fileName: string, source: string }) => string | Promise<string>
+  }): Promise<string>
+}
+
+const STYLE_EXTENSION = '.css.ts'
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Create a compiler backed by `@vanilla-extract/integration`.
+ *
+ * @remarks
+ * The processed module is written under `cacheDir` and imported, so
+ * runtime imports such as recipes resolve from the project.
+ *
+ * @returns The compiler, or `undefined` when the package isn't installed
+ */
+export async function loadVanillaExtract(root: string, cacheDir: string): Promise<StyleCompiler | undefined> {
+  let integration: VanillaExtractIntegration
+  try {
+    integration = await import('@vanilla-extract/integration' as string) as VanillaExtractIntegration
+  } catch {
+    return undefined
+  }
+
+  return async (file) => {
+    const { source } = await integration.compile({ filePath: file, cwd: root })
+    const css: string[] = []
+    const code = await integration.processVanillaFile({
+      source,
+      filePath: file,
+      serializeVirtualCssPath: ({ source }) => {
+        css.push(source)
+        return ''
+      }
+    })
+
+    const modulePath = join(cacheDir, 'styles', hashContent(file, code).slice(0, 16) + '.mjs')
+    await mkdir(join(cacheDir, 'styles'), { recursive: true })
+    await writeFile(modulePath, code)
+    const exports = { ...await import(pathToFileURL(modulePath).href) as Record<string, unknown> }
+
+    return { exports, css: css.join('\n') }
+  }
+}
+
+/**
+ * Keep the exports that survive serialization into the page state.
+ */
+function serializableExports(file: string, exports: Record<string, unknown>, report: DiagnosticReporter): Record<string, unknown> {
+  const kept: Record<string, unknown> = {}
+  for (const [name, value] of Object.entries(exports)) {
+    if (typeof value === 'function') {
+      report({
+        severity: 'warning',
+        code: 'style-export',
+        message: `Export "${name}" of ${file} is a function and is left out of $styles`,
+        file
+      })
+      continue
+    }
+    kept[name] = value
+  }
+  return kept
+}
+
+/**
+ * Compile the entry and the `.css.ts` files next to templates and
+ * directive modules.
+ *
+ * @remarks
+ * Template class names are exposed under the template name, e.g.
+ * `$styles.card.title` for `card.css.ts`, after those of the entry.
+ * Directive class names are left to bellagonia, which hands them to each
+ * directive as `$styles`. Files that fail to compile are reported and
+ * left out.
+ */
+export async function compileStyleSheets(root: string, options: StyleSheetsOptions): Promise<StyleSheets> {
+  const { report } = options
+  const sheets: StyleSheets = { exports: { ...options.styles }, css: {}, directives: {} }
+  const files: { sheet: string, file: string, key?: string }[] = []
+
+  const entryPath = join(root, options.entry)
+  if (!options.styles && await exists(entryPath)) {
+    files.push({ sheet: ENTRY_SHEET, file: options.entry })
+  }
+
+  const templateFiles = await glob('**/*' + STYLE_EXTENSION, { cwd: join(root, options.templatesDir), onlyFiles: true })
+  for (const file of templateFiles.sort()) {
+    const name = file.replace(/\\/g, '/').slice(0, -STYLE_EXTENSION.length)
+    files.push({ sheet: `template:${name}`, file: join(options.templatesDir, file), key: name })
+  }
+
+  const modules = new Set(options.directiveSources.values())
+  for (const module of [...modules].sort()) {
+    const file = module.replace(/^\/+/, '').replace(/\.[jt]sx?$/, STYLE_EXTENSION)
+    if (!await exists(join(root, file))) {
+      continue
+    }
+    files.push({ sheet: `directive:${module}`, file })
+    for (const [name, source] of options.directiveSources) {
+      if (source === module) {
+        sheets.directives[name] = module
+      }
+    }
+  }
+
+  if (files.length === 0) {
+    return sheets
+  }
+
+  const compile = options.compile ?? await loadVanillaExtract(root, options.cacheDir)
+  if (!compile) {
+    report({
+      severity: 'warning',
+      code: 'vanilla-extract',
+      message: `Found ${files.length} style file${files.length === 1 ? '' : 's'}, but @vanilla-extract/integration is not installed to compile them`,
+      file: files[0].file
+    })
+    return { ...sheets, directives: {} }
+  }
+
+  for (const { sheet, file, key } of files) {
+    let compiled: CompiledStyle
+    try {
+      compiled = await compile(join(root, file))
+    } catch (err) {
+      report({
+        severity: 'error',
+        code: 'style-compile',
+        message: `Could not compile ${file}: ${err instanceof Error ? err.message : String(err)}`,
+        file,
+        cause: err
+      })
+      continue
+    }
+
+    if (compiled.css) {
+      sheets.css[sheet] = compiled.css
+    }
+
+    // Directives get their class names from bellagonia instead
+    const exports = serializableExports(file, compiled.exports, report)
+    if (key !== undefined) {
+      sheets.exports[key] = exports
+    } else if (sheet === ENTRY_SHEET) {
+      Object.assign(sheets.exports, exports)
+    }
+  }
+
+  return sheets
+}
+
+/**
+ * Write each sheet as a content-hashed CSS file.
+ *
+ * @param dir - Absolute path of the build output
+ * @param assetsDir - Directory for the files, relative to `dir`
+ * @param base - Base path the site is served from
+ * @returns The URL of each sheet
+ */
+export async function writeStyleSheets(
+  sheets: StyleSheets,
+  dir: string,
+  assetsDir: string,
+  base: string
+): Promise<Record<string, string>> {
+  const hrefs: Record<string, string> = {}
+  const prefix = base.replace(/\/*$/, '/') + assetsDir.replace(/^\/+|\/+$/g, '') + '/'
+
+  for (const [sheet, css] of Object.entries(sheets.css)) {
+    const fileName = `${sheet.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '')}.${hashContent(css).slice(0, 8)}.css`
+    await mkdir(join(dir, assetsDir), { recursive: true })
+    await writeFile(join(dir, assetsDir, fileName), css)
+    hrefs[sheet] = prefix + fileName
+  }
+
+  return hrefs
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createStyleElements, createStyleLinks, insertStyles, usedStyleSheets, type StyleSheets } from './styles.js'
+import { writeStyleSheets } from './style-compiler.js'
+
+const sheets: StyleSheets = {
+  exports: { page: 'page_1', card: { title: 'card_title_1' } },
+  css: {
+    'entry': '.page_1{margin:0}',
+    'template:card': '.card_title_1{font-weight:bold}',
+    'template:layouts/base': 'main{display:grid}',
+    'directive:/src/directives/chart.ts': '.chart_1{width:100%}'
+  },
+  directives: { 'g-chart': '/src/directives/chart.ts', 'chart': '/src/directives/chart.ts' }
+}
+
+describe('styles', () => {
+  it('finds the sheets of the templates and directives a page uses', async () => {
+    const templates: Record<string, string> = {
+      'layouts/base': '<main><slot></slot></main>',
+      'card': '<article><h2 g-text="title"></h2></article>'
+    }
+    const page = '<!DOCTYPE html><html><head></head><body g-template="layouts/base"><template g-for="item in items"><div g-template="card"></div></template></body></html>'
+
+    expect(await usedStyleSheets(page, sheets, name => templates[name])).toEqual([
+      'entry',
+      'template:layouts/base',
+      'template:card'
+    ])
+    expect(await usedStyleSheets('<div g-chart="data"></div>', sheets, () => undefined)).toEqual([
+      'entry',
+      'directive:/src/directives/chart.ts'
+    ])
+  })
+
+  it('follows templates nested in other templates', async () => {
+    const templates: Record<string, string> = {
+      'layouts/base': '<main><div g-template="card"></div><slot></slot></main>',
+      'card': '<div g-template="layouts/base"></div>'
+    }
+
+    expect(await usedStyleSheets('<div g-template="layouts/base"></div>', sheets, async name => templates[name])).toEqual([
+      'entry',
+      'template:layouts/base',
+      'template:card'
+    ])
+  })
+
+  it('writes content-hashed sheets and links them in the head', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'astrogonia-styles-'))
+    try {
+      const hrefs = await writeStyleSheets(sheets, dir, '_astro/astrogonia', '/docs')
+
+      expect(hrefs['template:layouts/base']).toMatch(/^\/docs\/_astro\/astrogonia\/template-layouts-base\.[0-9a-f]{8}\.css$/)
+      expect(await readFile(join(dir, hrefs['template:layouts/base'].slice('/docs/'.length)), 'utf-8')).toBe('main{display:grid}')
+
+      const links = createStyleLinks([hrefs.entry])
+      expect(insertStyles('<html><head><title>Docs</title></head><body></body></html>', links))
+        .toBe(`<html><head><title>Docs</title><link rel="stylesheet" href="${hrefs.entry}"></head><body></body></html>`)
+      expect(insertStyles('<p>fragment</p>', links)).toBe('<p>fragment</p>')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('inlines sheets without letting the CSS close the element', () => {
+    const escaped = { ...sheets, css: { entry: 'a::after{content:"</style>"}' } }
+
+    expect(createStyleElements(escaped, ['entry'])).toBe('<style data-astrogonia-style="entry">a::after{content:"<\\/style>"}</style>')
+  })
+})
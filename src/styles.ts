@@ -0,0 +1,153 @@
+/**
+ * Scoped styles from vanilla-extract `.css.ts` files, exposed to
+ * templates as `$styles` and linked into the pages that use them.
+ *
+ * @remarks
+ * Only what rendering needs lives here, as the middleware imports this
+ * module; compiling is in `style-compiler.ts`.
+ *
+ * @packageDocumentation
+ */
+
+import { parse, parseFragment, type DefaultTreeAdapterMap } from 'parse5'
+import { isFullDocument } from './renderer.js'
+import { INCLUDE_ATTR, parseInclude } from './includes.js'
+
+type ParentNode = DefaultTreeAdapterMap['parentNode']
+
+/**
+ * State key the compiled class names are exposed under.
+ */
+export const STYLES_KEY = '$styles'
+
+/**
+ * Sheet holding the CSS of the entry, linked into every page.
+ */
+export const ENTRY_SHEET = 'entry'
+
+/**
+ * The styles of a project, as the renderer and the pages need them.
+ */
+export interface StyleSheets {
+  /**
+   * Class names exposed as `$styles`: the exports of the entry, and those
+   * of each template's `.css.ts` under the template name.
+   */
+  exports: Record<string, unknown>
+  /**
+   * CSS keyed by sheet: {@link ENTRY_SHEET}, `template:<name>` or
+   * `directive:<module>`.
+   */
+  css: Record<string, string>
+  /**
+   * Module of each directive attribute whose module has styles.
+   */
+  directives: Record<string, string>
+}
+
+function collectUsage(html: string, templates: Set<string>, attributes: Set<string>): string[] {
+  const found: string[] = []
+  const walk = (node: ParentNode) => {
+    const children = 'content' in node && node.tagName === 'template'
+      ? [...node.childNodes, ...node.content.childNodes]
+      : node.childNodes
+    for (const child of children) {
+      if (!('tagName' in child)) {
+        continue
+      }
+      for (const attr of child.attrs) {
+        attributes.add(attr.name.split(':')[0])
+        const name = attr.name === INCLUDE_ATTR && attr.value.trim() ? parseInclude(attr.value).name : attr.value
+        if ((attr.name === 'g-template' || attr.name === INCLUDE_ATTR) && !templates.has(name)) {
+          templates.add(name)
+          found.push(name)
+        }
+      }
+      walk(child)
+    }
+  }
+
+  walk(isFullDocument(html) ? parse(html) : parseFragment(html))
+  return found
+}
+
+/**
+ * Find the sheets a page uses: the entry, the templates and partials it
+ * renders, including those nested in other templates, and the directives
+ * of its attributes.
+ *
+ * @param readTemplate - Source of a template by name, or `undefined` when
+ * there is none
+ */
+export async function usedStyleSheets(
+  html: string,
+  sheets: StyleSheets,
+  readTemplate: (name: string) => Promise<string | undefined> | string | undefined
+): Promise<string[]> {
+  const templates = new Set<string>()
+  const attributes = new Set<string>()
+
+  const pending = collectUsage(html, templates, attributes)
+  while (pending.length > 0) {
+    const name = pending.shift()!
+    let source: string | undefined
+    try {
+      source = await readTemplate(name)
+    } catch {
+      // Missing templates are reported by the render
+    }
+    if (source !== undefined) {
+      pending.push(...collectUsage(source, templates, attributes))
+    }
+  }
+
+  const used = new Set<string>()
+  if (ENTRY_SHEET in sheets.css) {
+    used.add(ENTRY_SHEET)
+  }
+  for (const name of templates) {
+    if (`template:${name}` in sheets.css) {
+      used.add(`template:${name}`)
+    }
+  }
+  for (const name of attributes) {
+    const module = sheets.directives[name]
+    if (module !== undefined && `directive:${module}` in sheets.css) {
+      used.add(`directive:${module}`)
+    }
+  }
+
+  return [...used]
+}
+
+/**
+ * Markup linking stylesheets.
+ */
+export function createStyleLinks(hrefs: string[]): string {
+  return hrefs.map(href => `<link rel="stylesheet" href="${href}">`).join('')
+}
+
+/**
+ * Markup inlining the CSS of some sheets.
+ *
+ * @remarks
+ * Escaped so the CSS can't close the element.
+ */
+export function createStyleElements(sheets: StyleSheets, names: string[]): string {
+  return names
+    .map(name => `<style data-astrogonia-style="${name}">${sheets.css[name].replace(/<\/(style)/gi, '<\\/$1')}</style>`)
+    .join('')
+}
+
+/**
+ * Insert style markup at the end of the head.
+ *
+ * @returns The page unchanged when it has no `</head>`
+ */
+export function insertStyles(html: string, markup: string): string {
+  const insertAt = html.toLowerCase().indexOf('</head>')
+  if (!markup || insertAt === -1) {
+    return html
+  }
+  return html.slice(0, insertAt) + markup + html.slice(insertAt)
+}
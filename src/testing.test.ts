@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defineDirective } from './authoring.js'
+import { renderFixture, renderHtml, runMiddleware } from './testing.js'
+
+const shout = defineDirective(['$element', '$eval', '$expr'], ($element, $eval, $expr) => {
+  $element.textContent = String($eval($expr)).toUpperCase()
+})
+
+const path = defineDirective(['$element', '$url'], ($element, $url) => {
+  $element.textContent = $url.pathname
+})
+
+describe('testing', () => {
+  it('renders pages with state, templates and custom directives', async () => {
+    const { html, diagnostics } = await renderHtml('<div g-template="card"><p g-shout="title"></p></div>', {
+      state: { title: 'Docs' },
+      templates: { card: '<article><slot></slot></article>' },
+      directives: { shout }
+    })
+
+    expect(html).toBe('<div g-template="card"><article><p g-shout="title">DOCS</p></article></div>')
+    expect(diagnostics).toEqual([])
+  })
+
+  it('runs the loader for the page and collects diagnostics', async () => {
+    const loader = ({ params }: { params: Record<string, string | undefined> }) => ({ slug: params.slug })
+    const page = await renderHtml('<h1 g-text="slug"></h1><p g-path></p>', {
+      loader,
+      directives: { path },
+      pathname: '/blog/hello',
+      params: { slug: 'hello' }
+    })
+    const failed = await renderHtml('<div g-template="missing"></div>')
+
+    expect(page.html).toBe('<h1 g-text="slug">hello</h1><p g-path="">/blog/hello</p>')
+    expect(failed.diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 'render', message: 'SSR failed: Template not found: missing' })])
+  })
+
+  it('renders fixture pages', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'astrogonia-testing-'))
+    try {
+      const file = join(root, 'index.html')
+      await writeFile(file, '<!DOCTYPE html><html><body><p g-text="title"></p></body></html>')
+
+      const { html } = await renderFixture(file, { state: { title: 'Docs' }, serializeState: false })
+      expect(html).toBe('<!DOCTYPE html><html><body><p g-text="title">Docs</p></body></html>')
+      await expect(renderFixture(join(root, 'missing.html'))).rejects.toThrow('Could not read fixture')
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('runs the middleware against a fake next()', async () => {
+    const page = '<!DOCTYPE html><html><body><p g-path></p></body></html>'
+    const { response, html } = await runMiddleware(page, {
+      url: 'http://localhost/docs',
+      directives: { path },
+      serializeState: false
+    })
+
+    expect(response.headers.get('content-type')).toBe('text/html')
+    expect(html).toBe('<!DOCTYPE html><html><body><p g-path="">/docs</p></body></html>')
+  })
+
+  it('leaves prerendered routes to the build outside of dev', async () => {
+    const page = '<p g-text="title"></p>'
+
+    expect((await runMiddleware(page, { prerendered: true, dev: false })).html).toBe(page)
+    expect((await runMiddleware(new Response('{}', { headers: { 'content-type': 'application/json' } }))).html).toBe('{}')
+  })
+})
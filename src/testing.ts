@@ -0,0 +1,239 @@
+/**
+ * Render pages and run the middleware in tests, without Astro.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile } from 'node:fs/promises'
+import { createMemoryRegistry } from 'gonia'
+import type { APIContext } from 'astro'
+import { createRenderer } from './renderer.js'
+import { createMiddleware } from './handler.js'
+import { loadPageState, type Loader } from './loader.js'
+import { createStaticServices } from './services.js'
+import { BUILTIN_PREFIX } from './discovery.js'
+import type { Diagnostic, DiagnosticReporter } from './diagnostics.js'
+import type { AnyDirective } from './authoring.js'
+
+export interface TestRenderOptions {
+  /**
+   * Initial state, as the integration's `state` option.
+   */
+  state?: Record<string, unknown>
+  /**
+   * Template HTML keyed by name, as under `templatesDir`.
+   */
+  templates?: Record<string, string>
+  /**
+   * Custom directives, as the integration's `directives` option.
+   */
+  directives?: Record<string, AnyDirective>
+  /**
+   * Attribute prefix of custom directives.
+   * @defaultValue 'g-'
+   */
+  prefix?: string
+  /**
+   * Build the document of page shells from their `g-template`, as when
+   * `astroTemplating` is disabled.
+   * @defaultValue false
+   */
+  templatePages?: boolean
+  /**
+   * Write the merged state into rendered documents.
+   * @defaultValue true
+   */
+  serializeState?: boolean
+  /**
+   * Per-page state loader, run for {@link TestRenderOptions.pathname}.
+   */
+  loader?: Loader
+  /**
+   * Path the page is rendered for.
+   * @defaultValue '/'
+   */
+  pathname?: string
+  /**
+   * Route parameters of the page.
+   * @defaultValue {}
+   */
+  params?: Record<string, string | undefined>
+}
+
+export interface TestRender {
+  /**
+   * The rendered page.
+   */
+  html: string
+  /**
+   * Problems reported while rendering.
+   */
+  diagnostics: Diagnostic[]
+}
+
+export interface TestMiddlewareOptions extends Omit<TestRenderOptions, 'pathname'> {
+  /**
+   * URL of the request.
+   * @defaultValue 'http://localhost/'
+   */
+  url?: string | URL
+  /**
+   * Whether the route is prerendered, which the middleware leaves to the
+   * build pass outside of dev.
+   * @defaultValue false
+   */
+  prerendered?: boolean
+  /**
+   * Whether the request is served by the dev server.
+   * @defaultValue true
+   */
+  dev?: boolean
+  /**
+   * Stream the response, as the integration's `streaming` option.
+   * @defaultValue false
+   */
+  streaming?: boolean
+  /**
+   * `Astro.locals` of the request.
+   * @defaultValue {}
+   */
+  locals?: Record<string, unknown>
+}
+
+export interface TestResponse extends TestRender {
+  /**
+   * The response the middleware returned, whose body has been read into
+   * {@link TestRender.html}.
+   */
+  response: Response
+}
+
+function collectDiagnostics(): { diagnostics: Diagnostic[], report: DiagnosticReporter } {
+  const diagnostics: Diagnostic[] = []
+  return { diagnostics, report: diagnostic => diagnostics.push(diagnostic) }
+}
+
+async function renderPage(html: string, options: TestRenderOptions, source?: string): Promise<TestRender> {
+  const { diagnostics, report } = collectDiagnostics()
+  const pathname = options.pathname ?? '/'
+  const params = options.params ?? {}
+
+  const renderer = createRenderer({
+    state: options.state,
+    directives: options.directives,
+    prefix: options.prefix,
+    templates: createMemoryRegistry(options.templates ?? {}),
+    templatePages: options.templatePages,
+    serializeState: options.serializeState,
+    report
+  })
+
+  const state = await loadPageState(options.loader, { pathname, params }, report)
+  if (!state) {
+    return { html, diagnostics }
+  }
+
+  return {
+    html: await renderer.render(html, { state, source, services: createStaticServices(pathname, params) }),
+    diagnostics
+  }
+}
+
+/**
+ * Render a page or fragment as the build pass renders prerendered pages.
+ *
+ * @remarks
+ * The page gets the loader's state and the request services of a
+ * prerendered page. Problems are collected rather than logged; a loader
+ * failure leaves the page unrendered, as in the build. Styles aren't
+ * compiled.
+ *
+ * @example
+ * ```ts
+ * const { html, diagnostics } = await renderHtml('<h1 g-text="title"></h1>', {
+ *   state: { title: 'Docs' }
+ * })
+ * // html: '<h1 g-text="title">Docs</h1>'
+ * ```
+ */
+export function renderHtml(html: string, options: TestRenderOptions = {}): Promise<TestRender> {
+  return renderPage(html, options)
+}
+
+/**
+ * Render a page read from a file, such as a fixture of the test suite.
+ *
+ * @param file - Path of the page, which diagnostics are reported for
+ * @throws If the file can't be read
+ */
+export async function renderFixture(file: string, options: TestRenderOptions = {}): Promise<TestRender> {
+  let html: string
+  try {
+    html = await readFile(file, 'utf-8')
+  } catch (err) {
+    throw new Error(`[astrogonia] Could not read fixture ${file}`, { cause: err })
+  }
+
+  return renderPage(html, options, file)
+}
+
+/**
+ * Run the middleware for one request, with `next()` answering with the
+ * given page.
+ *
+ * @param page - Response of `next()`, or HTML served as `text/html`
+ *
+ * @example
+ * ```ts
+ * const { response, html } = await runMiddleware('<h1 g-text="title"></h1>', {
+ *   state: { title: 'Docs' },
+ *   url: 'http://localhost/docs'
+ * })
+ * ```
+ */
+export async function runMiddleware(page: string | Response, options: TestMiddlewareOptions = {}): Promise<TestResponse> {
+  const { diagnostics, report } = collectDiagnostics()
+  const url = new URL(options.url ?? 'http://localhost/')
+
+  const onRequest = createMiddleware({
+    options: {
+      state: options.state ?? {},
+      templatesDir: 'src/templates',
+      prefix: options.prefix ?? BUILTIN_PREFIX,
+      templatePages: options.templatePages ?? false,
+      // The requested route stands for a template page
+      templateRoutes: [url.pathname],
+      serializeState: options.serializeState ?? true,
+      streaming: options.streaming ?? false,
+      stateSources: {}
+    },
+    directives: options.directives ?? {},
+    loader: options.loader,
+    report,
+    stateFiles: {},
+    catalogs: {},
+    styleSheets: { exports: {}, css: {}, directives: {} },
+    templates: options.templates ?? {},
+    dev: options.dev ?? true
+  })
+
+  const context = {
+    request: new Request(url),
+    url,
+    params: options.params ?? {},
+    routePattern: url.pathname,
+    locals: options.locals ?? {},
+    isPrerendered: options.prerendered ?? false
+  }
+  const next = async () => typeof page === 'string'
+    ? new Response(page, { headers: { 'content-type': 'text/html' } })
+    : page
+
+  const response = await onRequest(context as unknown as APIContext, next)
+  if (!(response instanceof Response)) {
+    throw new Error('[astrogonia] The middleware did not return a response')
+  }
+
+  // Read a copy so the response can still be inspected
+  return { response, html: await response.clone().text(), diagnostics }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { directiveAttributes, generateTypes, typeOf } from './typegen.js'
+
+describe('type generation', () => {
+  it('infers types from state values', () => {
+    expect(typeOf('Docs')).toBe('string')
+    expect(typeOf([1, 2])).toBe('number[]')
+    expect(typeOf([1, 'two'])).toBe('(number | string)[]')
+    expect(typeOf([])).toBe('unknown[]')
+    expect(typeOf(null)).toBe('null')
+    expect(typeOf({ title: 'Docs', 'nav-links': [{ href: '/' }] })).toBe([
+      '{',
+      '  title: string',
+      '  "nav-links": {',
+      '    href: string',
+      '  }[]',
+      '}'
+    ].join('\n'))
+  })
+
+  it('lists directive attributes without the aliases of g- directives', () => {
+    const discovered = new Map([
+      ['g-chart', '/src/directives/chart.ts'],
+      ['chart', '/src/directives/chart.ts'],
+      ['my-map', '/src/directives/map.ts']
+    ])
+    const names = directiveAttributes(['counter'], discovered)
+
+    expect(names).toContain('g-text')
+    expect(names).toContain('g-counter')
+    expect(names).toContain('g-chart')
+    expect(names).toContain('my-map')
+    expect(names).not.toContain('chart')
+  })
+
+  it('prefixes custom directives with the configured prefix', () => {
+    const discovered = new Map([
+      ['x-chart', '/src/directives/chart.ts'],
+      ['chart', '/src/directives/chart.ts']
+    ])
+    const names = directiveAttributes(['counter'], discovered, 'x-')
+
+    expect(names).toContain('g-text')
+    expect(names).toContain('x-counter')
+    expect(names).toContain('x-chart')
+    expect(names).not.toContain('g-counter')
+    expect(names).not.toContain('chart')
+  })
+
+  it('declares template names and directive attributes for Astro', () => {
+    const types = generateTypes({ state: {}, data: {}, templates: ['base'], directives: ['g-template', 'g-text'] })
+
+    expect(types).toContain(`declare module 'astrogonia' {\n  interface RegisteredState {}\n  interface RegisteredTemplates {\n    base: true\n  }`)
+    expect(types).toContain(`    interface HTMLAttributes {\n      "g-template"?: import('astrogonia').TemplateName\n      "g-text"?: string\n    }`)
+    expect(types.endsWith('export {}\n')).toBe(true)
+  })
+})
@@ -0,0 +1,199 @@
+/**
+ * Project types generated during `astro sync`: the state shape, template
+ * names and directive names, for `astro check` and editors.
+ *
+ * @packageDocumentation
+ */
+
+import { glob } from 'tinyglobby'
+import { BUILTIN_DIRECTIVES } from './remark-directives.js'
+import { BUILTIN_PREFIX } from './discovery.js'
+import { readStateFile, type StateSources } from './state-sources.js'
+
+/**
+ * Name of the declaration file Astro writes under `.astro/`.
+ */
+export const TYPES_FILENAME = 'astrogonia.d.ts'
+
+export interface ProjectTypes {
+  /**
+   * The `state` option, whose values the state shape is inferred from.
+   */
+  state: Record<string, unknown>
+  /**
+   * Type of each state source, keyed by source name.
+   */
+  data: Record<string, string>
+  /**
+   * Template names, as `g-template` takes them.
+   */
+  templates: string[]
+  /**
+   * Directive attribute names.
+   */
+  directives: string[]
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+function propertyName(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key)
+}
+
+function objectType(entries: [string, string][], indent: string, optional = false): string {
+  if (entries.length === 0) {
+    return '{}'
+  }
+
+  const inner = indent + '  '
+  const separator = optional ? '?: ' : ': '
+  return `{\n${entries.map(([key, type]) => inner + propertyName(key) + separator + type).join('\n')}\n${indent}}`
+}
+
+/**
+ * Infer a type from a parsed JSON or YAML value.
+ *
+ * @example
+ * ```ts
+ * typeOf({ title: 'Docs', tags: ['a'] })
+ * // {
+ * //   title: string
+ * //   tags: string[]
+ * // }
+ * ```
+ */
+export function typeOf(value: unknown, indent = ''): string {
+  if (value === null) {
+    return 'null'
+  }
+
+  if (value instanceof Date) {
+    return 'Date'
+  }
+
+  if (Array.isArray(value)) {
+    const types = [...new Set(value.map(item => typeOf(item, indent)))]
+    if (types.length === 0) {
+      return 'unknown[]'
+    }
+    const union = types.join(' | ')
+    return types.length === 1 ? `${union}[]` : `(${union})[]`
+  }
+
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+    case 'undefined':
+      return typeof value
+    case 'object':
+      return objectType(Object.entries(value).map(([key, item]) => [key, typeOf(item, indent + '  ')]), indent)
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Types of the values state sources provide under `$data`.
+ *
+ * @remarks
+ * File sources are read for their shape. Collection entries have their
+ * `data` typed `unknown`, and function sources are `unknown`, since
+ * neither can be known without running the project.
+ */
+export async function stateSourceTypes(root: string, sources: StateSources = {}): Promise<Record<string, string>> {
+  const types: Record<string, string> = {}
+
+  for (const [name, source] of Object.entries(sources)) {
+    if (typeof source === 'string') {
+      try {
+        types[name] = typeOf(await readStateFile(root, source))
+      } catch {
+        // Reported when the build loads it
+        types[name] = 'unknown'
+      }
+    } else if (typeof source === 'object') {
+      types[name] = `{ id: string, collection: ${JSON.stringify(source.collection)}, data: unknown }[]`
+    } else {
+      types[name] = 'unknown'
+    }
+  }
+
+  return types
+}
+
+/**
+ * Names of the templates in a directory, without `.html`.
+ */
+export async function findTemplateNames(root: string, templatesDir: string): Promise<string[]> {
+  const files = await glob('**/*.html', { cwd: `${root.replace(/\/+$/, '')}/${templatesDir}`, onlyFiles: true })
+  return files.map(file => file.replace(/\\/g, '/').slice(0, -'.html'.length)).sort()
+}
+
+/**
+ * Attribute names of the builtin, configured and discovered directives.
+ *
+ * @param custom - Names of the `directives` option, registered with the
+ * prefix
+ * @param discovered - Directive sources found in the project, where names
+ * registered with the prefix are also mapped without it
+ * @param prefix - Attribute prefix of custom directives
+ */
+export function directiveAttributes(custom: string[], discovered: Map<string, string>, prefix = BUILTIN_PREFIX): string[] {
+  const names = new Set(Object.keys(BUILTIN_DIRECTIVES).filter(name => name.startsWith(BUILTIN_PREFIX)))
+
+  for (const name of custom) {
+    names.add(prefix + name)
+  }
+
+  for (const [name, module] of discovered) {
+    // Skip the unprefixed alias of a prefixed directive
+    if (name.startsWith(prefix) || discovered.get(prefix + name) !== module) {
+      names.add(name)
+    }
+  }
+
+  return [...names].sort()
+}
+
+/**
+ * Generate the declarations for a project.
+ *
+ * @remarks
+ * Augments the `Registered*` interfaces of `astrogonia` and adds the
+ * directive attributes to Astro's JSX, so `astro check` flags `g-template`
+ * values that name no template.
+ */
+export function generateTypes(types: ProjectTypes): string {
+  const state = Object.entries(types.state).map(([key, value]) => [key, typeOf(value, '    ')] as [string, string])
+  if (Object.keys(types.data).length > 0) {
+    const data = Object.entries(types.data).map(([name, type]) => [name, type.replace(/\n/g, '\n      ')] as [string, string])
+    state.push(['$data', objectType(data, '    ')])
+  }
+
+  const names = (list: string[]) => objectType(list.map(name => [name, 'true']), '  ')
+  const attributes = types.directives.map(name => [
+    name,
+    name === 'g-template' ? `import('astrogonia').TemplateName` : 'string'
+  ] as [string, string])
+
+  return [
+    '// Generated by astrogonia during `astro sync`. Do not edit.',
+    '',
+    `declare module 'astrogonia' {`,
+    `  interface RegisteredState ${objectType(state, '  ')}`,
+    `  interface RegisteredTemplates ${names(types.templates)}`,
+    `  interface RegisteredDirectives ${names(types.directives)}`,
+    '}',
+    '',
+    'declare global {',
+    '  namespace astroHTML.JSX {',
+    `    interface HTMLAttributes ${objectType(attributes, '    ', true)}`,
+    '  }',
+    '}',
+    '',
+    'export {}',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,54 @@
+declare module 'virtual:astrogonia/config' {
+  /**
+   * Serializable integration options.
+   */
+  export const options: import('./handler.js').MiddlewareOptions
+  /**
+   * Whether the dev server serves the module, rather than a build.
+   */
+  export const dev: boolean
+  /**
+   * Custom directives handed over from the integration in dev.
+   */
+  export const directives: Record<string, import('./authoring.js').AnyDirective>
+  /**
+   * Per-page state loader handed over from the integration in dev.
+   */
+  export const loader: import('./loader.js').Loader | undefined
+  /**
+   * Diagnostics reporter handed over from the integration in dev.
+   */
+  export const report: import('./diagnostics.js').DiagnosticReporter | undefined
+  /**
+   * State sources, including functions, handed over from the integration
+   * in dev.
+   */
+  export const stateSources: import('./state-sources.js').StateSources | undefined
+  /**
+   * Parsed state files keyed by their path as declared.
+   */
+  export const stateFiles: Record<string, unknown>
+  /**
+   * Flattened message catalogs keyed by locale.
+   */
+  export const catalogs: import('./catalogs.js').Catalogs
+  /**
+   * Compiled class names and CSS of the project's styles.
+   */
+  export const styleSheets: import('./styles.js').StyleSheets
+  /**
+   * Astro's `getCollection`, when a state source reads a collection.
+   */
+  export const getCollection: ((name: string) => Promise<{ id: string, data: unknown }[]>) | undefined
+  /**
+   * Template HTML keyed by name, relative to `templatesDir`.
+   */
+  export const templates: Record<string, string>
+}
+
+declare module 'virtual:astrogonia/islands' {
+  /**
+   * Imports of builtin and discovered directive modules, keyed by name.
+   */
+  export const loaders: import('./islands.js').DirectiveLoaders
+}